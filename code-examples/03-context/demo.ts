@@ -18,6 +18,7 @@
 
 import * as fs from 'fs';
 import * as path from 'path';
+import { fileURLToPath } from 'url';
 
 // =============================================================================
 // CONCEPT 1: The Repository Map
@@ -62,7 +63,8 @@ interface FileInfo {
  * Regex fails on:
  *   - const foo = function() {}           // anonymous function
  *   - export { foo } from './bar'         // re-exports
- *   - function /* comment */ foo() {}     // comments break patterns
+ *   - function // comment
+ *       foo() {}                          // comments break patterns
  *   - Nested functions, classes with methods, etc.
  * 
  * Tree-sitter understands the STRUCTURE of code, not just text patterns.
@@ -352,7 +354,7 @@ function findRelevantFiles(files: FileInfo[], query: string, maxFiles: number =
  * We're budgeting, not billing. Being off by 10% is okay.
  * We leave buffer room anyway (e.g., use 80% of budget).
  */
-function estimateTokens(text: string): number {
+export function estimateTokens(text: string): number {
   // Rough estimate: 4 characters per token
   // This is good enough for budgeting purposes
   return Math.ceil(text.length / 4);
@@ -411,4 +413,7 @@ async function main() {
   console.log("see CONCEPT.md and MODULE-3-CODE-CONTEXT.md");
 }
 
-main().catch(console.error);
+// Only run the demo when executed directly, so Module 5 can import from here
+if (process.argv[1] === fileURLToPath(import.meta.url)) {
+  main().catch(console.error);
+}
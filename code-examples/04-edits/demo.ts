@@ -11,11 +11,13 @@
  * Plus: fuzzy matching for when exact matches fail.
  */
 
+import { fileURLToPath } from 'url';
+
 // ============================================================================
 // 📺 SECTION 1: Search/Replace Format
 // ============================================================================
 
-interface SearchReplaceBlock {
+export interface SearchReplaceBlock {
   search: string;
   replace: string;
 }
@@ -30,7 +32,7 @@ interface SearchReplaceBlock {
  * new code here
  * >>>>>>> REPLACE
  */
-function parseSearchReplaceBlocks(text: string): SearchReplaceBlock[] {
+export function parseSearchReplaceBlocks(text: string): SearchReplaceBlock[] {
   const blocks: SearchReplaceBlock[] = [];
   
   // Match the pattern with regex
@@ -50,7 +52,7 @@ function parseSearchReplaceBlocks(text: string): SearchReplaceBlock[] {
 /**
  * Apply search/replace to file content
  */
-function applySearchReplace(
+export function applySearchReplace(
   content: string, 
   blocks: SearchReplaceBlock[]
 ): { success: boolean; content?: string; error?: string } {
@@ -63,7 +65,8 @@ function applySearchReplace(
         error: `Could not find:\n"${block.search.slice(0, 100)}..."`
       };
     }
-    result = result.replace(block.search, block.replace);
+    // WHY a function: a string replacement would expand "$&", "$1"... inside the code
+    result = result.replace(block.search, () => block.replace);
   }
   
   return { success: true, content: result };
@@ -73,14 +76,14 @@ function applySearchReplace(
 // 📺 SECTION 2: Unified Diff Format
 // ============================================================================
 
-interface DiffHunk {
+export interface DiffHunk {
   contextBefore: string[];
   removals: string[];
   additions: string[];
   contextAfter: string[];
 }
 
-interface ParsedDiff {
+export interface ParsedDiff {
   filePath: string;
   hunks: DiffHunk[];
 }
@@ -92,7 +95,7 @@ interface ParsedDiff {
  *    Instead, we use the context lines (starting with space) to find
  *    where to apply changes.
  */
-function parseDiff(diffText: string): ParsedDiff | null {
+export function parseDiff(diffText: string): ParsedDiff | null {
   const lines = diffText.split('\n');
   let filePath = '';
   const hunks: DiffHunk[] = [];
@@ -150,7 +153,7 @@ function parseDiff(diffText: string): ParsedDiff | null {
  * 2. Find this pattern in the file (using context as anchor!)
  * 3. Replace with: context_before + additions + context_after
  */
-function applyDiff(
+export function applyDiff(
   content: string, 
   diff: ParsedDiff
 ): { success: boolean; content?: string; error?: string } {
@@ -236,7 +239,7 @@ function applyHunkAt(lines: string[], hunk: DiffHunk, startIndex: number): strin
  * 1. Normalized whitespace matching
  * 2. Levenshtein distance for similarity
  */
-function findPatternFuzzy(
+export function findPatternFuzzy(
   lines: string[], 
   pattern: string[], 
   threshold: number = 0.8
@@ -262,7 +265,7 @@ function findPatternFuzzy(
  * Calculate string similarity (0-1)
  * Uses simplified Levenshtein-based approach
  */
-function calculateSimilarity(a: string, b: string): number {
+export function calculateSimilarity(a: string, b: string): number {
   if (a === b) return 1;
   if (a.length === 0 || b.length === 0) return 0;
   
@@ -461,4 +464,7 @@ async function main() {
   console.log("4. Always validate the result before committing changes");
 }
 
-main().catch(console.error);
+// Only run the demo when executed directly, so the agent can import the edit engine
+if (process.argv[1] === fileURLToPath(import.meta.url)) {
+  main().catch(console.error);
+}
@@ -0,0 +1,264 @@
+/**
+ * 🎓 MODULE 5: Token Accounting and Budgets
+ *
+ * Every response reports its usage. Throw that away and you can't answer
+ * "what did this task cost?" — or stop a runaway loop before it burns $20.
+ *
+ * Three pieces:
+ *
+ *   PRICING       model → $ per million tokens (input, output, cache)
+ *   UsageTracker  adds up every model call, per iteration and per session
+ *   BudgetLimits  tokens / dollars / wall-clock — checked after every call
+ *
+ * 💡 KEY INSIGHT: A budget stop is NOT a crash. The loop ends like a normal
+ * run, tells you what got done so far, and the session can be resumed.
+ */
+
+import type { ModelUsage } from './providers.js';
+import { cacheHitRate } from './caching.js';
+
+// ============================================
+// PART 1: PRICING
+// ============================================
+
+/** USD per million tokens */
+export interface ModelPricing {
+  input: number;
+  output: number;
+  cacheRead: number;
+  cacheWrite: number;
+}
+
+/**
+ * 📺 SHOW THIS: Keys are model-name PREFIXES — "claude-sonnet-4" prices
+ * "claude-sonnet-4-20250514" too. The longest matching prefix wins, so
+ * "gpt-4o-mini" isn't priced as "gpt-4o".
+ *
+ * ⚠️ Prices change. Check your provider's pricing page, and override
+ * entries with AgentConfig.pricing.
+ */
+export const PRICING: Record<string, ModelPricing> = {
+  'claude-opus-4': { input: 15, output: 75, cacheRead: 1.5, cacheWrite: 18.75 },
+  'claude-sonnet-4': { input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 },
+  'claude-3-7-sonnet': { input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 },
+  'claude-3-5-sonnet': { input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 },
+  'claude-3-5-haiku': { input: 0.8, output: 4, cacheRead: 0.08, cacheWrite: 1 },
+  'claude-3-haiku': { input: 0.25, output: 1.25, cacheRead: 0.03, cacheWrite: 0.3 },
+  'gpt-4o': { input: 2.5, output: 10, cacheRead: 1.25, cacheWrite: 2.5 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6, cacheRead: 0.075, cacheWrite: 0.15 },
+  'gpt-4.1': { input: 2, output: 8, cacheRead: 0.5, cacheWrite: 2 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6, cacheRead: 0.1, cacheWrite: 0.4 },
+  'o3-mini': { input: 1.1, output: 4.4, cacheRead: 0.55, cacheWrite: 1.1 },
+  // The scripted test provider is free
+  'scripted': { input: 0, output: 0, cacheRead: 0, cacheWrite: 0 }
+};
+
+export function pricingFor(model: string, table: Record<string, ModelPricing> = PRICING): ModelPricing | null {
+  // "openai/gpt-4o" (OpenRouter style) → "gpt-4o"
+  const name = model.split('/').pop() ?? model;
+  const match = Object.keys(table)
+    .filter(prefix => name.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0];
+  return match ? table[match] : null;
+}
+
+export function costOf(usage: ModelUsage, pricing: ModelPricing): number {
+  return (
+    usage.inputTokens * pricing.input +
+    usage.outputTokens * pricing.output +
+    (usage.cacheReadTokens ?? 0) * pricing.cacheRead +
+    (usage.cacheWriteTokens ?? 0) * pricing.cacheWrite
+  ) / 1_000_000;
+}
+
+// ============================================
+// PART 2: TRACKING
+// ============================================
+
+export interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  cacheWriteTokens: number;
+  /** Sum over calls whose model has a price */
+  costUsd: number;
+  /** Calls to a model missing from the pricing table — costUsd leaves them out */
+  unpricedCalls: number;
+}
+
+export interface UsageReport {
+  iterations: Array<UsageTotals & { iteration: number }>;
+  totals: UsageTotals;
+  durationMs: number;
+}
+
+function emptyTotals(): UsageTotals {
+  return { calls: 0, inputTokens: 0, outputTokens: 0, cacheReadTokens: 0, cacheWriteTokens: 0, costUsd: 0, unpricedCalls: 0 };
+}
+
+/**
+ * One tracker per run. Record EVERY model call — including the summary
+ * call compaction makes — or the totals will quietly be too low.
+ */
+export class UsageTracker {
+  private readonly perIteration = new Map<number, UsageTotals>();
+  private readonly totals = emptyTotals();
+  private readonly startedAt = Date.now();
+
+  constructor(private readonly pricing: Record<string, ModelPricing> = PRICING) {}
+
+  /** Add one model call; returns its cost (null if the model has no price) */
+  record(iteration: number, model: string, usage: ModelUsage): number | null {
+    const price = pricingFor(model, this.pricing);
+    const cost = price ? costOf(usage, price) : null;
+
+    if (!this.perIteration.has(iteration)) this.perIteration.set(iteration, emptyTotals());
+    for (const totals of [this.perIteration.get(iteration)!, this.totals]) {
+      totals.calls++;
+      totals.inputTokens += usage.inputTokens;
+      totals.outputTokens += usage.outputTokens;
+      totals.cacheReadTokens += usage.cacheReadTokens ?? 0;
+      totals.cacheWriteTokens += usage.cacheWriteTokens ?? 0;
+      if (cost === null) totals.unpricedCalls++;
+      else totals.costUsd += cost;
+    }
+    return cost;
+  }
+
+  /**
+   * Add a finished sub-agent's usage to this run's, under the iteration
+   * that delegated — so the parent's budget pays for its children too.
+   */
+  absorb(iteration: number, report: UsageReport): void {
+    const child = report.totals;
+    if (!this.perIteration.has(iteration)) this.perIteration.set(iteration, emptyTotals());
+    for (const totals of [this.perIteration.get(iteration)!, this.totals]) {
+      totals.calls += child.calls;
+      totals.inputTokens += child.inputTokens;
+      totals.outputTokens += child.outputTokens;
+      totals.cacheReadTokens += child.cacheReadTokens;
+      totals.cacheWriteTokens += child.cacheWriteTokens;
+      totals.costUsd += child.costUsd;
+      totals.unpricedCalls += child.unpricedCalls;
+    }
+  }
+
+  get totalTokens(): number {
+    const t = this.totals;
+    return t.inputTokens + t.outputTokens + t.cacheReadTokens + t.cacheWriteTokens;
+  }
+
+  get elapsedMs(): number {
+    return Date.now() - this.startedAt;
+  }
+
+  report(): UsageReport {
+    return {
+      iterations: [...this.perIteration].map(([iteration, totals]) => ({ iteration, ...totals })),
+      totals: { ...this.totals },
+      durationMs: this.elapsedMs
+    };
+  }
+
+  // ============================================
+  // PART 3: BUDGETS
+  // ============================================
+
+  /**
+   * 📺 SHOW THIS: Checked after every model call and before the next one.
+   * Returns why the run must stop, or null to keep going.
+   *
+   * A call in flight can't be un-spent, so a run may end slightly OVER
+   * budget — but never by more than one model call.
+   */
+  exceeded(limits: BudgetLimits): string | null {
+    if (limits.maxTokens !== undefined && this.totalTokens >= limits.maxTokens) {
+      return `token budget used up (${this.totalTokens.toLocaleString()} of ${limits.maxTokens.toLocaleString()} tokens)`;
+    }
+    if (limits.maxCostUsd !== undefined && this.totals.costUsd >= limits.maxCostUsd) {
+      return `cost budget used up (${formatUsd(this.totals.costUsd)} of ${formatUsd(limits.maxCostUsd)})`;
+    }
+    if (limits.maxDurationMs !== undefined && this.elapsedMs >= limits.maxDurationMs) {
+      return `time budget used up (${formatDuration(this.elapsedMs)} of ${formatDuration(limits.maxDurationMs)})`;
+    }
+    return null;
+  }
+}
+
+export interface BudgetLimits {
+  /** Input + output + cache tokens over the whole run */
+  maxTokens?: number;
+  /** USD, priced with the pricing table */
+  maxCostUsd?: number;
+  /** Wall-clock time for the run */
+  maxDurationMs?: number;
+}
+
+/**
+ * The partial result a budget stop returns instead of a final answer:
+ * what the model last said, and what it actually changed.
+ */
+export function partialResult(
+  reason: string,
+  lastText: string,
+  actions: Array<{ name: string; input: Record<string, unknown> }>
+): string {
+  const files = [...new Set(actions
+    .filter(a => (a.name === 'write_file' || a.name === 'edit_file') && typeof a.input.path === 'string')
+    .map(a => a.input.path as string))];
+  const commands = actions.filter(a => a.name === 'run_command').map(a => a.input.command as string);
+
+  const lines = [`Stopped early: ${reason}.`];
+  if (lastText.trim()) lines.push('', `Last update from the agent:\n${lastText.trim()}`);
+  if (files.length > 0) lines.push('', `Files changed:\n${files.map(f => `- ${f}`).join('\n')}`);
+  if (commands.length > 0) lines.push('', `Commands run:\n${commands.map(c => `- ${c}`).join('\n')}`);
+  if (files.length === 0 && commands.length === 0) lines.push('', 'No files were changed.');
+  return lines.join('\n');
+}
+
+// ============================================
+// PART 4: THE REPORT
+// ============================================
+
+/**
+ * ▶️ Printed at the end of every run:
+ *
+ *   💰 Usage — 4 model calls in 38s
+ *      Iter     Input   Output  Cache R  Cache W      Cost
+ *      1        2,310      412        0        0   $0.0131
+ *      ...
+ *      Total    9,874    1,605   41,200    6,310   $0.0537
+ *      🗄️  Prompt cache: 72% of input read from cache (41,200 read, 6,310 written)
+ */
+export function formatUsageReport(report: UsageReport): string {
+  const n = (value: number) => value.toLocaleString().padStart(8);
+  const row = (label: string, t: UsageTotals) =>
+    `   ${label.padEnd(6)}${n(t.inputTokens)} ${n(t.outputTokens)} ${n(t.cacheReadTokens)} ${n(t.cacheWriteTokens)} ` +
+    `${(t.calls === t.unpricedCalls ? 'n/a' : `$${t.costUsd.toFixed(4)}`).padStart(9)}`;
+
+  const lines = [
+    `💰 Usage — ${report.totals.calls} model call(s) in ${formatDuration(report.durationMs)}`,
+    `   ${'Iter'.padEnd(6)}${'Input'.padStart(8)} ${'Output'.padStart(8)} ${'Cache R'.padStart(8)} ${'Cache W'.padStart(8)} ${'Cost'.padStart(9)}`,
+    ...report.iterations.map(t => row(String(t.iteration), t)),
+    row('Total', report.totals)
+  ];
+  const hitRate = cacheHitRate(report.totals);
+  if (report.totals.cacheReadTokens + report.totals.cacheWriteTokens > 0 && hitRate !== null) {
+    lines.push(`   🗄️  Prompt cache: ${Math.round(hitRate * 100)}% of input read from cache ` +
+      `(${report.totals.cacheReadTokens.toLocaleString()} read, ${report.totals.cacheWriteTokens.toLocaleString()} written)`);
+  }
+  if (report.totals.unpricedCalls > 0) {
+    lines.push(`   ⚠️  ${report.totals.unpricedCalls} call(s) to a model without a price are not in the cost`);
+  }
+  return lines.join('\n');
+}
+
+function formatUsd(amount: number): string {
+  return `$${amount.toFixed(amount < 1 ? 4 : 2)}`;
+}
+
+function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
@@ -0,0 +1,72 @@
+/**
+ * 🎓 MODULE 5: Prompt Caching
+ *
+ * Every iteration sends the whole request again:
+ *
+ *   tools        ~3k tokens   same every time
+ *   system       ~5k tokens   same every time (repo map, AGENTS.md)
+ *   messages     grows        iteration 12 re-sends iterations 1–11
+ *
+ * By iteration 20 we pay for the same 60k tokens of prefix on every call.
+ * Anthropic can cache a prefix: the first request WRITES it (1.25× the
+ * input price), later requests that start with the same bytes READ it
+ * (0.1×). It only caches where we put a breakpoint:
+ *
+ *   [tools ●] [system ●] [msg 1 … msg n-2 ●] [msg n-1 … msg n ●] [plan / pinned files]
+ *       1          2               3                    4           never cached
+ *
+ * The two conversation breakpoints roll forward: this request reads the
+ * prefix up to the previous turn's ● and writes the rest.
+ *
+ * ⚠️ A cache hit needs the prefix to be BYTE-identical. Anything that
+ * changes per request — the plan, pinned files — goes after the last
+ * breakpoint, and the repo map is built once per session, in a fixed order.
+ */
+
+import Anthropic from '@anthropic-ai/sdk';
+
+/** Anthropic allows 4 breakpoints per request: tools, system, and these */
+const CONVERSATION_BREAKPOINTS = 2;
+
+const EPHEMERAL: Anthropic.CacheControlEphemeral = { type: 'ephemeral' };
+
+/**
+ * 📺 SHOW THIS: Mark the last block of the last two user messages.
+ * Returns copies — the transcript must never contain cache markers.
+ *
+ * Call it BEFORE adding per-request notes (withPlan, withPinnedFiles):
+ * they go after the breakpoint, so the cached prefix doesn't depend on them.
+ */
+export function withCacheBreakpoints(messages: Anthropic.MessageParam[]): Anthropic.MessageParam[] {
+  const marked = new Set<number>();
+  for (let i = messages.length - 1; i >= 0 && marked.size < CONVERSATION_BREAKPOINTS; i--) {
+    if (messages[i].role === 'user') marked.add(i);
+  }
+
+  return messages.map((message, index) => {
+    if (!marked.has(index)) return message;
+    const content = typeof message.content === 'string'
+      ? [{ type: 'text' as const, text: message.content }]
+      : message.content;
+    if (content.length === 0) return message;
+    const last = { ...content[content.length - 1], cache_control: EPHEMERAL } as Anthropic.ContentBlockParam;
+    return { ...message, content: [...content.slice(0, -1), last] };
+  });
+}
+
+/** The system prompt as one cached text block */
+export function cachedSystem(system: string): Anthropic.TextBlockParam[] {
+  return [{ type: 'text', text: system, cache_control: EPHEMERAL }];
+}
+
+/** A breakpoint on the last tool caches the whole tool list */
+export function cachedTools(tools: Anthropic.Tool[]): Anthropic.Tool[] {
+  if (tools.length === 0) return tools;
+  return [...tools.slice(0, -1), { ...tools[tools.length - 1], cache_control: EPHEMERAL }];
+}
+
+/** Share of all input tokens served from the cache — null before any input */
+export function cacheHitRate(usage: { inputTokens: number; cacheReadTokens: number; cacheWriteTokens: number }): number | null {
+  const input = usage.inputTokens + usage.cacheReadTokens + usage.cacheWriteTokens;
+  return input === 0 ? null : usage.cacheReadTokens / input;
+}
@@ -0,0 +1,350 @@
+/**
+ * 🎓 MODULE 5: Checkpoints — Undo for Agent Edits
+ *
+ * When the agent overwrites a file, the old content is gone. In a git repo
+ * you can `git checkout`, but scratch directories often have no git — and
+ * even with git, you want to undo ONE bad turn, not everything.
+ *
+ * THE FIX: snapshot every file right before the agent changes it.
+ *
+ *   Iteration 3 ──► checkpoint 3: { src/auth.ts: before=a1f…, after=9c2… }
+ *   Iteration 5 ──► checkpoint 5: { src/new.ts:  before=null,  after=77b… }   ← created
+ *
+ * - undo     → write every `before` back (before=null means: delete the file)
+ * - redo     → write every `after` back (after=null means: it was deleted)
+ * - restore  → undo/redo until that checkpoint is the latest one applied
+ *
+ * ⚠️ Only write tools (write_file, edit_file) take snapshots. A file that
+ * run_command deletes was never copied, so undo can't bring it back — the
+ * only "deleted" files undo restores are ones the agent wrote first.
+ *
+ * Storage:
+ *   .agent/checkpoints/blobs/<sha256>     file contents, stored once
+ *   .agent/checkpoints/<session>.json     the checkpoint list for a session
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+
+export const DEFAULT_CHECKPOINTS_DIR = path.join('.agent', 'checkpoints');
+
+// ============================================
+// PART 1: DATA MODEL
+// ============================================
+
+export interface FileSnapshot {
+  /** Relative to the workspace root */
+  path: string;
+  /** Blob hash of the content before the change, null = file didn't exist */
+  before: string | null;
+  /** Blob hash after the iteration finished, null = file doesn't exist */
+  after: string | null;
+}
+
+export interface Checkpoint {
+  /** "<sessionId>.<iteration>" */
+  id: string;
+  sessionId: string;
+  iteration: number;
+  createdAt: string;
+  files: FileSnapshot[];
+  undone: boolean;
+}
+
+interface CheckpointIndex {
+  root: string;
+  checkpoints: Checkpoint[];
+}
+
+// ============================================
+// PART 2: THE STORE
+// ============================================
+
+/**
+ * One store per session. The agent loop calls:
+ *   beforeWrite(path)  — from write tools, before touching the file
+ *   commit(iteration)  — after the iteration's tools have run
+ */
+export class CheckpointStore {
+  private readonly indexPath: string;
+  private readonly blobsDir: string;
+  private index: CheckpointIndex;
+  /** Files touched in the current iteration: relative path → before-hash */
+  private pending = new Map<string, string | null>();
+
+  constructor(
+    readonly root: string,
+    readonly sessionId: string,
+    private readonly dir: string = DEFAULT_CHECKPOINTS_DIR
+  ) {
+    this.indexPath = path.join(dir, `${sessionId}.json`);
+    this.blobsDir = path.join(dir, 'blobs');
+    this.index = fs.existsSync(this.indexPath)
+      ? JSON.parse(fs.readFileSync(this.indexPath, 'utf-8'))
+      : { root, checkpoints: [] };
+  }
+
+  /**
+   * 📺 SHOW THIS: Snapshot a file the first time it's touched this iteration.
+   * Writing the same file twice in one turn keeps the ORIGINAL before.
+   */
+  beforeWrite(absolutePath: string): void {
+    const relative = path.relative(this.root, absolutePath);
+    if (this.pending.has(relative)) return;
+    this.pending.set(relative, this.storeBlob(absolutePath));
+  }
+
+  /** Close the iteration's checkpoint. Returns null if nothing was written. */
+  commit(iteration: number): Checkpoint | null {
+    if (this.pending.size === 0) return null;
+
+    const checkpoint: Checkpoint = {
+      id: `${this.sessionId}.${iteration}`,
+      sessionId: this.sessionId,
+      iteration,
+      createdAt: new Date().toISOString(),
+      files: [...this.pending].map(([file, before]) => ({
+        path: file,
+        before,
+        after: this.storeBlob(path.join(this.root, file))
+      })),
+      undone: false
+    };
+    this.pending.clear();
+
+    // WHY: Like any editor — a new change after an undo discards the redo history
+    this.index.checkpoints = this.index.checkpoints.filter(c => !c.undone);
+    this.index.checkpoints.push(checkpoint);
+    this.save();
+    return checkpoint;
+  }
+
+  list(): Checkpoint[] {
+    return this.index.checkpoints;
+  }
+
+  /**
+   * Everything the session changed so far: each file as it was before
+   * the agent first touched it, and as it is on disk now. Files that
+   * ended up unchanged are left out.
+   */
+  changes(): Array<{ path: string; before: string | null; after: string | null }> {
+    const original = new Map<string, string | null>();
+    for (const checkpoint of this.index.checkpoints.filter(c => !c.undone)) {
+      for (const file of checkpoint.files) {
+        if (!original.has(file.path)) original.set(file.path, file.before);
+      }
+    }
+    return [...original]
+      .filter(([file, before]) => hashOf(path.join(this.root, file)) !== before)
+      .map(([file, before]) => {
+        const absolute = path.join(this.root, file);
+        return {
+          path: file,
+          before: before === null ? null : fs.readFileSync(path.join(this.blobsDir, before), 'utf-8'),
+          after: fs.existsSync(absolute) ? fs.readFileSync(absolute, 'utf-8') : null
+        };
+      });
+  }
+
+  // ============================================
+  // PART 3: UNDO / REDO / RESTORE
+  // ============================================
+
+  /** Roll back the most recent applied checkpoint */
+  undo(): RestoreResult | null {
+    const checkpoint = [...this.index.checkpoints].reverse().find(c => !c.undone);
+    if (!checkpoint) return null;
+    const result = this.apply(checkpoint, 'before');
+    checkpoint.undone = true;
+    this.save();
+    return result;
+  }
+
+  /** Re-apply the oldest undone checkpoint */
+  redo(): RestoreResult | null {
+    const checkpoint = this.index.checkpoints.find(c => c.undone);
+    if (!checkpoint) return null;
+    const result = this.apply(checkpoint, 'after');
+    checkpoint.undone = false;
+    this.save();
+    return result;
+  }
+
+  /**
+   * Make the files look exactly like they did right after checkpoint `id`:
+   * undo everything newer, redo anything older that was undone.
+   */
+  restore(id: string): RestoreResult[] {
+    const target = this.index.checkpoints.findIndex(c => c.id === id);
+    if (target === -1) throw new Error(`No checkpoint "${id}" in session ${this.sessionId}`);
+
+    const results: RestoreResult[] = [];
+    const applied = () => this.index.checkpoints.filter(c => !c.undone).length;
+    while (applied() > target + 1) results.push(this.undo()!);
+    while (applied() < target + 1) results.push(this.redo()!);
+    return results;
+  }
+
+  /**
+   * 🔧 HOW IT WORKS: Write one side of every snapshot back to disk.
+   * If a file changed since the checkpoint (someone edited it by hand),
+   * we still restore it — but report it, so nothing is lost silently.
+   */
+  private apply(checkpoint: Checkpoint, side: 'before' | 'after'): RestoreResult {
+    const changedSince: string[] = [];
+
+    for (const file of checkpoint.files) {
+      const absolute = path.join(this.root, file.path);
+      const expected = side === 'before' ? file.after : file.before;
+      if (hashOf(absolute) !== expected) changedSince.push(file.path);
+
+      const hash = file[side];
+      if (hash === null) {
+        fs.rmSync(absolute, { force: true });
+      } else {
+        fs.mkdirSync(path.dirname(absolute), { recursive: true });
+        fs.copyFileSync(path.join(this.blobsDir, hash), absolute);
+      }
+    }
+
+    return { checkpoint, action: side === 'before' ? 'undo' : 'redo', changedSince };
+  }
+
+  private storeBlob(absolutePath: string): string | null {
+    if (!fs.existsSync(absolutePath)) return null;
+    const content = fs.readFileSync(absolutePath);
+    const hash = createHash('sha256').update(content).digest('hex');
+    const blobPath = path.join(this.blobsDir, hash);
+    if (!fs.existsSync(blobPath)) {
+      fs.mkdirSync(this.blobsDir, { recursive: true });
+      fs.writeFileSync(blobPath, content);
+    }
+    return hash;
+  }
+
+  private save(): void {
+    fs.mkdirSync(this.dir, { recursive: true });
+    fs.writeFileSync(this.indexPath, JSON.stringify(this.index, null, 2));
+  }
+
+  /** Open the store of the most recent session that has checkpoints */
+  static latest(dir: string = DEFAULT_CHECKPOINTS_DIR): CheckpointStore | null {
+    if (!fs.existsSync(dir)) return null;
+    const sessions = fs.readdirSync(dir)
+      .filter(name => name.endsWith('.json'))
+      .map(name => name.replace(/\.json$/, ''))
+      .sort();
+    return sessions.length > 0 ? CheckpointStore.open(sessions[sessions.length - 1], dir) : null;
+  }
+
+  static open(sessionId: string, dir: string = DEFAULT_CHECKPOINTS_DIR): CheckpointStore {
+    const indexPath = path.join(dir, `${sessionId}.json`);
+    if (!fs.existsSync(indexPath)) throw new Error(`No checkpoints for session ${sessionId}`);
+    const { root } = JSON.parse(fs.readFileSync(indexPath, 'utf-8')) as CheckpointIndex;
+    return new CheckpointStore(root, sessionId, dir);
+  }
+}
+
+export interface RestoreResult {
+  checkpoint: Checkpoint;
+  action: 'undo' | 'redo';
+  /** Files that were modified outside the agent since the checkpoint */
+  changedSince: string[];
+}
+
+function hashOf(absolutePath: string): string | null {
+  if (!fs.existsSync(absolutePath)) return null;
+  return createHash('sha256').update(fs.readFileSync(absolutePath)).digest('hex');
+}
+
+// ============================================
+// PART 4: DIFFS
+// ============================================
+
+/**
+ * 🔧 HOW IT WORKS: Longest common subsequence over lines, then hunks with
+ * 3 lines of context — the same format Module 4's parser reads.
+ */
+export function unifiedDiff(file: string, before: string | null, after: string | null): string {
+  // A final newline ends the last line — it isn't an extra empty one
+  const linesOf = (text: string | null) => (text ? text.replace(/\n$/, '').split('\n') : []);
+  const a = linesOf(before);
+  const b = linesOf(after);
+  const header = `--- ${before === null ? '/dev/null' : `a/${file}`}\n+++ ${after === null ? '/dev/null' : `b/${file}`}`;
+  if (a.length * b.length > 4_000_000) return `${header}\n(too large to diff: ${a.length} → ${b.length} lines)`;
+
+  // lcs[i][j] = length of the LCS of a[i..] and b[j..]
+  const lcs = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const ops: Array<{ op: ' ' | '-' | '+'; text: string; oldLine: number; newLine: number }> = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) ops.push({ op: ' ', text: a[i], oldLine: i++, newLine: j++ });
+    else if (i < a.length && (j === b.length || lcs[i + 1][j] >= lcs[i][j + 1])) ops.push({ op: '-', text: a[i], oldLine: i++, newLine: j });
+    else ops.push({ op: '+', text: b[j], oldLine: i, newLine: j++ });
+  }
+
+  // Group changes that are at most 6 lines apart into one hunk
+  const hunks: string[] = [];
+  let index = 0;
+  while (index < ops.length) {
+    if (ops[index].op === ' ') {
+      index++;
+      continue;
+    }
+    const start = Math.max(0, index - 3);
+    let end = index;
+    while (end < ops.length) {
+      const nextChange = ops.findIndex((op, k) => k > end && op.op !== ' ');
+      if (nextChange !== -1 && nextChange - end <= 6) end = nextChange;
+      else break;
+    }
+    const stop = Math.min(ops.length, end + 4);
+    const slice = ops.slice(start, stop);
+    const oldCount = slice.filter(op => op.op !== '+').length;
+    const newCount = slice.filter(op => op.op !== '-').length;
+    hunks.push(`@@ -${slice[0].oldLine + (oldCount ? 1 : 0)},${oldCount} +${slice[0].newLine + (newCount ? 1 : 0)},${newCount} @@`);
+    hunks.push(...slice.map(op => `${op.op}${op.text}`));
+    index = stop;
+  }
+  return `${header}\n${hunks.join('\n')}`;
+}
+
+// ============================================
+// PART 5: CLI OUTPUT
+// ============================================
+
+export function printCheckpoints(store: CheckpointStore): void {
+  const checkpoints = store.list();
+  if (checkpoints.length === 0) {
+    console.log(`No checkpoints in session ${store.sessionId}`);
+    return;
+  }
+  for (const checkpoint of checkpoints) {
+    console.log(`${checkpoint.undone ? '↩️ ' : '📸'} ${checkpoint.id}  ${checkpoint.createdAt}${checkpoint.undone ? '  (undone)' : ''}`);
+    for (const file of checkpoint.files) {
+      const change = file.before === null ? 'created' : file.after === null ? 'deleted' : 'modified';
+      console.log(`     ${change.padEnd(9)} ${file.path}`);
+    }
+  }
+}
+
+export function printRestoreResult(result: RestoreResult | null): void {
+  if (!result) {
+    console.log('Nothing to do');
+    return;
+  }
+  const verb = result.action === 'undo' ? '↩️  Undid' : '↪️  Redid';
+  console.log(`${verb} ${result.checkpoint.id}: ${result.checkpoint.files.map(f => f.path).join(', ')}`);
+  for (const file of result.changedSince) {
+    console.log(`   ⚠️  ${file} had changed since the checkpoint — those changes were overwritten`);
+  }
+}
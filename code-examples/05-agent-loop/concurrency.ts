@@ -0,0 +1,76 @@
+/**
+ * 🎓 MODULE 5: Running Tool Calls Concurrently
+ *
+ * Models often ask for several tools in ONE turn:
+ *
+ *   read_file(a.ts)  read_file(b.ts)  search_files("login")  run_command("npm test")
+ *
+ * Running them one after another wastes time. Running them ALL at once is
+ * wrong too — a write and a read of the same file would race.
+ *
+ * THE RULE:
+ * - Read-only calls in a row → run together (up to a concurrency limit)
+ * - A write or shell command → waits for everything before it, runs
+ *   alone, and everything after it waits for IT
+ * - Results always come back in the original tool_use order
+ *
+ *   read a ─┐
+ *   read b ─┼─ together ─→ write c ─→ read d ─┐
+ *   search ─┘                          read e ─┴─ together
+ */
+
+export interface ScheduleOptions<T> {
+  /** Max read-only calls running at the same time */
+  concurrency: number;
+  /** Can this call run alongside its neighbours? */
+  isReadOnly: (item: T) => boolean;
+}
+
+/**
+ * 📺 SHOW THIS: Split into batches at every write, run each batch, keep order.
+ */
+export async function runScheduled<T, R>(
+  items: T[],
+  run: (item: T, index: number) => Promise<R>,
+  options: ScheduleOptions<T>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let batch: number[] = [];
+
+  const flush = async () => {
+    await runWithLimit(batch, options.concurrency, async index => {
+      results[index] = await run(items[index], index);
+    });
+    batch = [];
+  };
+
+  for (let index = 0; index < items.length; index++) {
+    if (options.isReadOnly(items[index])) {
+      batch.push(index);
+      continue;
+    }
+    // A write/exec is a barrier: finish the reads before it, then run it alone
+    await flush();
+    results[index] = await run(items[index], index);
+  }
+  await flush();
+
+  return results;
+}
+
+/**
+ * A tiny worker pool: `limit` workers pull the next index until none are left.
+ */
+async function runWithLimit(
+  indexes: number[],
+  limit: number,
+  worker: (index: number) => Promise<void>
+): Promise<void> {
+  let next = 0;
+  const workers = Array.from({ length: Math.min(Math.max(limit, 1), indexes.length) }, async () => {
+    while (next < indexes.length) {
+      await worker(indexes[next++]);
+    }
+  });
+  await Promise.all(workers);
+}
@@ -0,0 +1,296 @@
+/**
+ * 🎓 MODULE 5: Context Management — Compaction
+ *
+ * Every iteration appends to `messages`. A long task full of 10,000-char
+ * read_file results WILL eventually overflow the context window, and the
+ * request fails.
+ *
+ * THE FIX: watch the running token count, and BEFORE the limit is hit,
+ * compact the conversation:
+ *
+ *   1. Drop stale reads — a read_file result for a file that was written
+ *      or edited later is out of date anyway
+ *   2. Summarize older turns — replace them with a short summary,
+ *      keep the most recent turns verbatim
+ *
+ * 💡 KEY INSIGHT: Every tool_result must answer a tool_use in the message
+ * right before it. So we never cut between the two — we only cut just
+ * before an assistant message, and the pair moves (or goes) together.
+ */
+
+import Anthropic from '@anthropic-ai/sdk';
+import * as path from 'path';
+import { estimateTokens } from '../03-context/demo.js';
+import type { ModelProvider, ModelUsage } from './providers.js';
+
+// ============================================
+// PART 1: TOKEN COUNTING
+// ============================================
+
+export interface ContextOptions {
+  /** Model context window in tokens (Claude Sonnet 4: 200k) */
+  contextWindow?: number;
+  /** Compact once the conversation uses this fraction of the window */
+  compactAt?: number;
+  /** Messages at the end of the conversation that are never summarized */
+  keepRecent?: number;
+}
+
+/** What compaction needs to know about the run's tools */
+export interface StaleReadOptions {
+  /** Whether a tool changes files — runAgent asks its registry (category "write") */
+  isWrite?: (toolName: string) => boolean;
+  /** Tool paths are relative to the workspace root, not the process cwd (default: cwd) */
+  root?: string;
+}
+
+export interface CompactionResult {
+  messages: Anthropic.MessageParam[];
+  staleReadsDropped: number;
+  messagesSummarized: number;
+  tokensBefore: number;
+  tokensAfter: number;
+}
+
+function estimateMessages(messages: Anthropic.MessageParam[]): number {
+  return estimateTokens(JSON.stringify(messages));
+}
+
+/**
+ * 📺 SHOW THIS: Tracks how full the context window is.
+ *
+ * HOW WE COUNT:
+ * - `usage.inputTokens` of the last response is the EXACT size of what we sent
+ * - Everything appended since (the reply + tool results) is estimated
+ *   with the ~4 chars/token heuristic from Module 3
+ * - Without real usage (scripted provider, right after compaction) we
+ *   estimate the whole thing
+ */
+export class ContextManager {
+  readonly contextWindow: number;
+  readonly compactAt: number;
+  readonly keepRecent: number;
+  private lastUsage: ModelUsage | null = null;
+  private messagesAtLastUsage = 0;
+
+  constructor(options: ContextOptions = {}, private readonly staleReads: StaleReadOptions = {}) {
+    this.contextWindow = options.contextWindow ?? 200_000;
+    this.compactAt = options.compactAt ?? 0.75;
+    this.keepRecent = options.keepRecent ?? 6;
+  }
+
+  /** Call after every model response, BEFORE pushing its content */
+  recordUsage(usage: ModelUsage, messageCount: number): void {
+    const prompt = usage.inputTokens + (usage.cacheReadTokens ?? 0) + (usage.cacheWriteTokens ?? 0);
+    this.lastUsage = prompt > 0 ? usage : null;
+    this.messagesAtLastUsage = messageCount;
+  }
+
+  countTokens(system: string, messages: Anthropic.MessageParam[]): number {
+    if (!this.lastUsage) {
+      return estimateTokens(system) + estimateMessages(messages);
+    }
+    const appended = messages.slice(this.messagesAtLastUsage);
+    const { inputTokens, outputTokens, cacheReadTokens = 0, cacheWriteTokens = 0 } = this.lastUsage;
+    // Cached tokens still take up room in the context window
+    return inputTokens + cacheReadTokens + cacheWriteTokens + outputTokens + estimateMessages(appended);
+  }
+
+  needsCompaction(system: string, messages: Anthropic.MessageParam[]): boolean {
+    return this.countTokens(system, messages) >= this.contextWindow * this.compactAt;
+  }
+
+  /**
+   * 🔧 HOW IT WORKS: Cheapest step first
+   *
+   * 1. Replace stale reads with a one-line note
+   * 2. Still over half the window? Summarize everything before the
+   *    last `keepRecent` messages into the first user message
+   */
+  async compact(
+    task: string,
+    system: string,
+    messages: Anthropic.MessageParam[],
+    provider: ModelProvider
+  ): Promise<CompactionResult> {
+    const tokensBefore = this.countTokens(system, messages);
+    const pruned = dropStaleReads(messages, this.staleReads);
+    let result = pruned.messages;
+    let messagesSummarized = 0;
+
+    const target = this.contextWindow * this.compactAt * 0.5;
+    const cut = findCutPoint(result, this.keepRecent);
+    if (estimateTokens(system) + estimateMessages(result) > target && cut > 0) {
+      const summary = await summarize(result.slice(0, cut), provider);
+      messagesSummarized = cut;
+      result = [
+        { role: 'user', content: `${task}\n\n${SUMMARY_HEADER}\n${summary}` },
+        ...result.slice(cut)
+      ];
+    }
+
+    // Our next count has to be a full estimate — the old usage is meaningless now
+    this.lastUsage = null;
+
+    return {
+      messages: result,
+      staleReadsDropped: pruned.dropped,
+      messagesSummarized,
+      tokensBefore,
+      tokensAfter: estimateTokens(system) + estimateMessages(result)
+    };
+  }
+}
+
+// ============================================
+// PART 2: DROPPING STALE READS
+// ============================================
+
+const FILE_WRITERS = new Set(['write_file', 'edit_file']);
+
+/**
+ * A read_file result is stale if the same file was written or edited
+ * afterwards — the model already has newer content (it changed it!).
+ *
+ * We replace the result CONTENT but keep the block, so its
+ * tool_use_id still pairs with the tool_use.
+ */
+export function dropStaleReads(
+  messages: Anthropic.MessageParam[],
+  options: StaleReadOptions = {}
+): { messages: Anthropic.MessageParam[]; dropped: number } {
+  const { isWrite = (name: string) => FILE_WRITERS.has(name), root = '.' } = options;
+  // Pass 1: where was each file last written?
+  const lastWrite = new Map<string, number>();
+  const readPaths = new Map<string, string>();
+  messages.forEach((message, index) => {
+    if (message.role !== 'assistant' || typeof message.content === 'string') return;
+    for (const block of message.content) {
+      if (block.type !== 'tool_use') continue;
+      const input = block.input as Record<string, unknown>;
+      if (typeof input.path !== 'string') continue;
+      const filePath = path.resolve(root, input.path);
+      if (isWrite(block.name)) lastWrite.set(filePath, index);
+      if (block.name === 'read_file') readPaths.set(block.id, filePath);
+    }
+  });
+
+  // Pass 2: blank out reads that happened before the last write
+  let dropped = 0;
+  const result = messages.map((message, index) => {
+    if (message.role !== 'user' || typeof message.content === 'string') return message;
+    return {
+      ...message,
+      content: message.content.map(block => {
+        if (block.type !== 'tool_result') return block;
+        const filePath = readPaths.get(block.tool_use_id);
+        if (!filePath || (lastWrite.get(filePath) ?? -1) <= index) return block;
+        dropped++;
+        return {
+          ...block,
+          content: `[Stale read of ${path.relative(path.resolve(root), filePath)} removed — the file was modified later. Read it again if needed.]`
+        };
+      })
+    };
+  });
+
+  return { messages: result, dropped };
+}
+
+// ============================================
+// PART 3: SUMMARIZING OLDER TURNS
+// ============================================
+
+const SUMMARY_HEADER = '## Summary of earlier work (older messages were compacted)';
+
+const SUMMARY_PROMPT = `You are compacting the history of a coding agent session.
+Summarize the conversation below so the agent can continue the task without it.
+Keep: the goal, decisions made, files read or changed (with paths), commands run and their outcome,
+errors still unresolved, and what remains to be done. Be concise — bullet points, no code dumps.`;
+
+/**
+ * Find where to cut: the latest assistant message that still leaves at
+ * least `keepRecent` messages after it. Cutting right before an assistant
+ * message keeps every tool_use/tool_result pair on the same side.
+ *
+ * Returns 0 when there is nothing worth summarizing.
+ */
+function findCutPoint(messages: Anthropic.MessageParam[], keepRecent: number): number {
+  for (let i = messages.length - keepRecent; i > 1; i--) {
+    if (messages[i]?.role === 'assistant') return i;
+  }
+  return 0;
+}
+
+async function summarize(messages: Anthropic.MessageParam[], provider: ModelProvider): Promise<string> {
+  try {
+    const response = await provider.createMessage({
+      system: SUMMARY_PROMPT,
+      messages: [{ role: 'user', content: renderForSummary(messages) }],
+      tools: [],
+      maxTokens: 1024
+    });
+    const text = response.content
+      .map(block => (block.type === 'text' ? block.text : ''))
+      .join('')
+      .trim();
+    if (text) return text;
+  } catch {
+    // Fall through — losing detail is better than failing the whole task
+  }
+  return `[${messages.length} earlier messages were removed to free up context; no summary is available]`;
+}
+
+/** Flatten messages into plain text, capping each tool result */
+function renderForSummary(messages: Anthropic.MessageParam[]): string {
+  const lines: string[] = [];
+  for (const message of messages) {
+    if (typeof message.content === 'string') {
+      lines.push(`${message.role.toUpperCase()}: ${message.content}`);
+      continue;
+    }
+    for (const block of message.content) {
+      if (block.type === 'text') {
+        lines.push(`${message.role.toUpperCase()}: ${block.text}`);
+      } else if (block.type === 'tool_use') {
+        lines.push(`TOOL CALL ${block.name}: ${JSON.stringify(block.input)}`);
+      } else if (block.type === 'tool_result') {
+        const content = typeof block.content === 'string' ? block.content : JSON.stringify(block.content);
+        lines.push(`TOOL RESULT: ${content.length > 2000 ? content.substring(0, 2000) + '...[truncated]' : content}`);
+      }
+    }
+  }
+  return lines.join('\n');
+}
+
+// ============================================
+// PART 4: PINNED FILES
+// ============================================
+
+export interface PinnedFile {
+  path: string;
+  /** Current content, or null if the file is gone */
+  content: string | null;
+}
+
+/**
+ * 🔧 HOW IT WORKS: Like the plan in planning.ts — the pinned files are
+ * read fresh for EVERY request and added to a copy of the last user
+ * message. The model always sees the current version, and the stored
+ * conversation never fills up with old copies.
+ */
+export function withPinnedFiles(messages: Anthropic.MessageParam[], files: PinnedFile[]): Anthropic.MessageParam[] {
+  const last = messages[messages.length - 1];
+  if (files.length === 0 || last?.role !== 'user') return messages;
+
+  const note: Anthropic.TextBlockParam = {
+    type: 'text',
+    text: files
+      .map(file => `<pinned_file path="${file.path}">\n${file.content ?? '(file not found)'}\n</pinned_file>`)
+      .join('\n')
+  };
+  const content = typeof last.content === 'string'
+    ? [{ type: 'text' as const, text: last.content }, note]
+    : [...last.content, note];
+  return [...messages.slice(0, -1), { role: 'user', content }];
+}
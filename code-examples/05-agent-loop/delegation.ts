@@ -0,0 +1,105 @@
+/**
+ * 🎓 MODULE 5: Sub-Agents — Delegating With a Fresh Context
+ *
+ * "Find every place we parse config" takes 15 searches and 10 file reads.
+ * In the main conversation, all of that output stays in context for the
+ * rest of the task — and crowds out what matters.
+ *
+ * THE FIX: hand the exploration to a CHILD agent loop.
+ *
+ *   parent ──delegate_task("find config parsing")──► child runAgent
+ *                                                     fresh messages
+ *                                                     read-only tools
+ *                                                     own iteration/token budget
+ *   parent ◄──────── one summary as the tool result ──┘
+ *
+ * The 25 tool results stay in the child's transcript (linked to the
+ * parent, so `sessions show <child>` still shows all of it). The parent
+ * only pays for the summary. Its file changes are the parent's to undo:
+ * they go into the parent's checkpoints.
+ */
+
+import { z } from 'zod';
+import { defineTool } from './registry.js';
+
+// ============================================
+// PART 1: THE TOOL
+// ============================================
+
+export type DelegateAccess = 'read_only' | 'read_write';
+
+export const delegateTaskTool = defineTool({
+  name: "delegate_task",
+  description: "Hand a self-contained sub-task to a sub-agent with a fresh context, e.g. " +
+    "\"find every place config is parsed and how\". Only its final summary comes back, so use it for " +
+    "broad exploration that would otherwise fill your context. The sub-agent can't see this conversation: " +
+    "put everything it needs in `task`.",
+  // WHY exec: a read_write sub-agent can do anything the parent can
+  category: "exec",
+  schema: z.object({
+    task: z.string().trim().min(1).describe("What to do and what to report back"),
+    access: z.enum(["read_only", "read_write"]).default("read_only")
+      .describe("read_only (default): can read and search only. read_write: can also edit files and run commands.")
+  }),
+  async handler(input, { delegate }) {
+    if (!delegate) return "Error: delegation is not available in this run";
+    return delegate(input);
+  }
+});
+
+// ============================================
+// PART 2: WHAT THE CHILD GETS
+// ============================================
+
+/**
+ * 💡 The child must never delegate again (no runaway recursion), and
+ * read-only children get exactly the tools that can't change anything.
+ */
+export function childToolNames(
+  access: DelegateAccess,
+  parentTools: string[],
+  readOnlyTools: Set<string>
+): string[] {
+  return parentTools.filter(name =>
+    name !== delegateTaskTool.name &&
+    name !== 'update_plan' &&
+    (access === 'read_write' || readOnlyTools.has(name))
+  );
+}
+
+/**
+ * Added to the child's system prompt. The task itself stays as the
+ * parent wrote it, so `sessions list` shows what the child was asked.
+ */
+export const SUB_AGENT_PROMPT = `## You Are a Sub-Agent
+Another coding agent gave you this task. It can't see your tool calls — only your final message.
+- Use only the tools you were given; some of the capabilities above may be missing
+- End with a complete, self-contained answer: concrete findings, file paths and line numbers
+- Say what you could not find or finish, rather than guessing`;
+
+export interface DelegateLimits {
+  /** Iterations per child run (default 10) */
+  maxIterations?: number;
+  /** Token budget per child run (default 200k) */
+  maxTokens?: number;
+}
+
+export const DEFAULT_DELEGATE_LIMITS: Required<DelegateLimits> = {
+  maxIterations: 10,
+  maxTokens: 200_000
+};
+
+// ============================================
+// PART 3: WHAT THE PARENT GETS BACK
+// ============================================
+
+/**
+ * ▶️ The tool result the parent sees:
+ *
+ *   Sub-agent 20250101-120000-ab12cd (completed, 6 iterations):
+ *   Config is parsed in three places: ...
+ */
+export function delegationResult(childSessionId: string, status: string, iterations: number, result: string): string {
+  const heading = `Sub-agent ${childSessionId} (${status}, ${iterations} iteration${iterations === 1 ? '' : 's'})`;
+  return `${heading}:\n${result}`;
+}
@@ -14,156 +14,237 @@
 
 import Anthropic from '@anthropic-ai/sdk';
 import * as fs from 'fs';
+import * as fsp from 'fs/promises';
 import * as path from 'path';
-import { execSync } from 'child_process';
+import { exec } from 'child_process';
+import { promisify } from 'util';
+import { fileURLToPath } from 'url';
+import { z } from 'zod';
+import { fallbackProviderFromEnv, providerFromEnv, type ModelProvider } from './providers.js';
+import { ContextManager, withPinnedFiles, type ContextOptions, type PinnedFile } from './context.js';
+import { PermissionManager, type PermissionDecision, type PermissionOptions } from './permissions.js';
+import { Workspace, type WorkspaceOptions } from './workspace.js';
+import { runScheduled } from './concurrency.js';
+import { consoleSubscriber, iterateEvents, jsonLinesSubscriber, type AgentEvent, type AgentEventListener } from './events.js';
+import { commitAgentChanges, gitTools, isGitRepo, prepareWorkingTree, snapshotDirtyTree, type GitOptions } from './git.js';
+import { PRICING, UsageTracker, partialResult, pricingFor, type BudgetLimits, type ModelPricing } from './budget.js';
+import { applyEdits } from './edits.js';
+import { searchFiles } from './search.js';
+import { DEFAULT_READ_LIMIT, readFilePage } from './reading.js';
+import { Plan, updatePlanTool, withPlan } from './planning.js';
+import {
+  DEFAULT_DELEGATE_LIMITS,
+  SUB_AGENT_PROMPT,
+  childToolNames,
+  delegateTaskTool,
+  delegationResult,
+  type DelegateAccess,
+  type DelegateLimits
+} from './delegation.js';
+import { detectChecks, formatFeedback, runChecks, verificationSummary, type VerifyOptions } from './verify.js';
+import { McpHub, loadMcpConfig, type McpServerConfig } from './mcp.js';
+import { ToolRegistry, defineTool, type ToolContext, type ToolSpec } from './registry.js';
+import { ProcessManager, processTools, type ProcessLimits } from './processes.js';
+import { withCacheBreakpoints } from './caching.js';
+import { DEFAULT_TRACES_DIR, TraceRecorder, latestTrace, printSpan, printTraceTimeline, type TraceParent } from './tracing.js';
+import { ModelCallError, withRetry, type RetryOptions } from './retry.js';
+import { loadInstructions, type InstructionFile, type InstructionOptions } from './instructions.js';
+import { CheckpointStore, DEFAULT_CHECKPOINTS_DIR, printCheckpoints, printRestoreResult } from './checkpoints.js';
+import {
+  DEFAULT_SESSIONS_DIR,
+  SessionTranscript,
+  newSessionId,
+  printSession,
+  printSessionList,
+  appendUserText,
+  readTranscript,
+  restoreSession,
+  type RestoredSession,
+  type SessionStatus
+} from './sessions.js';
 
-const client = new Anthropic();
+const execAsync = promisify(exec);
 
 // ============================================
 // PART 1: TOOL DEFINITIONS
 // ============================================
 
-const tools: Anthropic.Tool[] = [
-  {
+/**
+ * 💡 One object per tool: the schema the model sees, the check its input
+ * must pass, and the code that runs (see registry.ts). `input.path` is a
+ * string here because the registry already made sure of it.
+ */
+export const tools: ToolSpec[] = [
+  defineTool({
     name: "read_file",
-    description: "Read the contents of a file. Use this to examine code, configs, or any text file.",
-    input_schema: {
-      type: "object",
-      properties: {
-        path: { type: "string", description: "Path to the file" }
-      },
-      required: ["path"]
+    description: "Read a text file, up to `limit` lines from line `offset`. Each line is prefixed with its line number " +
+      "and a tab — the numbers are not part of the file, leave them out of edit_file. The header gives the total line " +
+      "count and a hash; a truncated read tells you the offset of the next page. Binary files and images are described, not shown.",
+    category: "read",
+    schema: z.object({
+      path: z.string().describe("Path to the file"),
+      offset: z.number().int().min(1).default(1).describe("First line to read, 1-based"),
+      limit: z.number().int().min(1).max(2000).default(DEFAULT_READ_LIMIT).describe("Number of lines to read")
+    }),
+    async handler({ path: file, offset, limit }, { workspace, signal }) {
+      return readFilePage(workspace.resolve(file, 'read'), file, { offset, limit }, signal);
     }
-  },
-  {
+  }),
+  defineTool({
     name: "write_file",
-    description: "Write content to a file. Creates directories if needed. Use for creating or modifying files.",
-    input_schema: {
-      type: "object",
-      properties: {
-        path: { type: "string", description: "Path to write to" },
-        content: { type: "string", description: "Content to write" }
-      },
-      required: ["path", "content"]
+    description: "Write content to a file. Creates directories if needed. Use for new files or complete rewrites; use edit_file to change part of a file.",
+    category: "write",
+    schema: z.object({
+      path: z.string().describe("Path to write to"),
+      content: z.string().describe("Content to write")
+    }),
+    async handler({ path: file, content }, { workspace, signal, beforeWrite }) {
+      // WHY resolve first: mkdir must never create directories outside the workspace
+      const filePath = workspace.resolve(file, 'write');
+      beforeWrite?.(filePath);
+      await fsp.mkdir(path.dirname(filePath), { recursive: true });
+      await fsp.writeFile(filePath, content, { signal });
+      return `✅ Written to ${file}`;
     }
-  },
-  {
+  }),
+  defineTool({
+    name: "edit_file",
+    description: "Change part of an existing file without rewriting it. `edits` holds either search/replace blocks " +
+      "(<<<<<<< SEARCH / ======= / >>>>>>> REPLACE, SEARCH must match the current lines exactly and only once) " +
+      "or a unified diff with @@ hunks. All edits apply, or none do.",
+    category: "write",
+    schema: z.object({
+      path: z.string().describe("File to edit"),
+      edits: z.string().describe("Search/replace blocks or a unified diff")
+    }),
+    async handler({ path: file, edits }, { workspace, signal, beforeWrite }) {
+      const filePath = workspace.resolve(file, 'write');
+      if (!fs.existsSync(filePath)) return `Error: ${file} does not exist — create it with write_file`;
+      const original = await fsp.readFile(filePath, { encoding: 'utf-8', signal });
+      const result = applyEdits(original, edits, file);
+      // 💡 All or nothing: a half-applied edit leaves the file in a state the model never saw
+      if (!result.success) return `Error: ${result.error}`;
+      beforeWrite?.(filePath);
+      await fsp.writeFile(filePath, result.content!, { signal });
+      return [`✅ Edited ${file}`, ...(result.notes ?? []).map(note => `⚠️ ${note}`)].join('\n');
+    }
+  }),
+  defineTool({
     name: "list_directory",
     description: "List files and folders in a directory. Use to explore project structure.",
-    input_schema: {
-      type: "object",
-      properties: {
-        path: { type: "string", description: "Directory path (use '.' for current)" }
-      },
-      required: ["path"]
+    category: "read",
+    schema: z.object({
+      path: z.string().describe("Directory path (use '.' for current)")
+    }),
+    async handler({ path: dir }, { workspace }) {
+      const dirPath = workspace.resolve(dir, 'read');
+      const items = await fsp.readdir(dirPath, { withFileTypes: true });
+      return items
+        .map(item => `${item.isDirectory() ? '📁' : '📄'} ${item.name}`)
+        .join('\n');
     }
-  },
-  {
+  }),
+  defineTool({
     name: "search_files",
-    description: "Search for a pattern across all files using grep. Returns matching lines with file paths.",
-    input_schema: {
-      type: "object",
-      properties: {
-        pattern: { type: "string", description: "Search pattern (regex supported)" },
-        path: { type: "string", description: "Directory to search in", default: "." }
-      },
-      required: ["pattern"]
+    description: "Search file contents for a regex (or literal text). Skips .gitignore'd and binary files. " +
+      "Results are grouped by file, `12:` marks a matching line and `11-` a context line; " +
+      "when there are more matches than max_results, call again with the offset it gives you.",
+    category: "read",
+    schema: z.object({
+      pattern: z.string().min(1).describe("Regular expression (JavaScript syntax), or plain text with literal: true"),
+      path: z.string().default(".").describe("Directory or file to search in"),
+      literal: z.boolean().default(false).describe("Match the pattern as plain text"),
+      case_sensitive: z.boolean().default(true),
+      include: z.array(z.string()).optional().describe("Only files matching these globs, e.g. [\"*.ts\", \"src/**\"]"),
+      exclude: z.array(z.string()).optional().describe("Skip files matching these globs"),
+      context_lines: z.number().int().min(0).max(10).default(0).describe("Lines to show around each match"),
+      max_results: z.number().int().min(1).max(200).default(50).describe("Matches per page"),
+      offset: z.number().int().min(0).default(0).describe("Matches to skip, for the next page")
+    }),
+    async handler({ path: dir, ...options }, { workspace, signal }) {
+      // 💡 No shell: the pattern is only ever a RegExp, never part of a command line
+      return searchFiles(workspace.root, workspace.resolve(dir || '.', 'read'), options, signal);
     }
-  },
-  {
+  }),
+  defineTool({
     name: "run_command",
     description: "Execute a shell command. Use for running tests, installing packages, git operations, etc. Be careful with destructive commands.",
-    input_schema: {
-      type: "object",
-      properties: {
-        command: { type: "string", description: "Shell command to execute" }
-      },
-      required: ["command"]
+    category: "exec",
+    schema: z.object({
+      command: z.string().describe("Shell command to execute")
+    }),
+    async handler({ command }, { workspace, signal }) {
+      // ⚠️ SECURITY: runAgent checks every call against the permission policy first
+      try {
+        const { stdout } = await execAsync(command, { 
+          cwd: workspace.root,
+          encoding: 'utf-8', 
+          maxBuffer: 1024 * 1024,
+          timeout: 30000,
+          signal
+        });
+        return stdout || "(no output)";
+      } catch (error) {
+        signal?.throwIfAborted();
+        const failed = error as { code?: unknown; signal?: string | null; stdout?: string; stderr?: string };
+        if (typeof failed.code !== 'number' && !failed.signal) throw error;
+        // 💡 The output of a failing test run is exactly what the model needs to see
+        const status = typeof failed.code === 'number' ? `exit code ${failed.code}` : `killed by ${failed.signal} (30s timeout)`;
+        return `Error: ${status}\n${failed.stdout ?? ''}${failed.stderr ?? ''}`.trimEnd();
+      }
     }
-  }
+  })
 ];
 
+/**
+ * The exit code of a run_command result: 0 for output, the code for
+ * "Error: exit code N", null when it never ran to the end (refused,
+ * killed, invalid input).
+ */
+export function commandExitCode(result: string): number | null {
+  if (!result.startsWith("Error:") && !result.startsWith("❌")) return 0;
+  const match = /^Error: exit code (\d+)/.exec(result);
+  return match ? Number(match[1]) : null;
+}
+
 // ============================================
 // PART 2: TOOL EXECUTION
 // ============================================
 
-function executeTool(name: string, input: Record<string, unknown>): string {
-  console.log(`  🔧 ${name}(${JSON.stringify(input).substring(0, 100)}...)`);
-  
-  try {
-    switch (name) {
-      case "read_file": {
-        const content = fs.readFileSync(input.path as string, 'utf-8');
-        return content.length > 10000 
-          ? content.substring(0, 10000) + "\n...[truncated]" 
-          : content;
-      }
-      
-      case "write_file": {
-        const dir = path.dirname(input.path as string);
-        if (dir && !fs.existsSync(dir)) {
-          fs.mkdirSync(dir, { recursive: true });
-        }
-        fs.writeFileSync(input.path as string, input.content as string);
-        return `✅ Written to ${input.path}`;
-      }
-      
-      case "list_directory": {
-        const items = fs.readdirSync(input.path as string, { withFileTypes: true });
-        return items
-          .map(item => `${item.isDirectory() ? '📁' : '📄'} ${item.name}`)
-          .join('\n');
-      }
-      
-      case "search_files": {
-        const searchPath = (input.path as string) || '.';
-        // Use grep (cross-platform alternative would be needed for Windows)
-        const result = execSync(
-          `grep -rn "${input.pattern}" ${searchPath} --include="*.ts" --include="*.js" --include="*.py" 2>/dev/null || true`,
-          { encoding: 'utf-8', maxBuffer: 1024 * 1024 }
-        );
-        return result || "No matches found";
-      }
-      
-      case "run_command": {
-        // ⚠️ SECURITY: In production, whitelist allowed commands!
-        const blocked = ['rm -rf', 'sudo', '> /dev', 'mkfs', 'dd if='];
-        const cmd = input.command as string;
-        if (blocked.some(b => cmd.includes(b))) {
-          return "❌ Command blocked for safety";
-        }
-        const result = execSync(cmd, { 
-          encoding: 'utf-8', 
-          maxBuffer: 1024 * 1024,
-          timeout: 30000 
-        });
-        return result || "(no output)";
-      }
-      
-      default:
-        return `Unknown tool: ${name}`;
-    }
-  } catch (error) {
-    return `Error: ${error instanceof Error ? error.message : 'Unknown error'}`;
-  }
+export type { ToolContext } from './registry.js';
+
+const builtinRegistry = new ToolRegistry([...tools, ...gitTools, updatePlanTool, delegateTaskTool]);
+
+/**
+ * Run one built-in tool outside the loop. Same path as inside it: the
+ * input is validated, and every failure comes back as "Error: ...".
+ */
+export async function executeTool(
+  name: string,
+  input: Record<string, unknown>,
+  context: ToolContext = {}
+): Promise<string> {
+  return builtinRegistry.execute(name, input, context);
 }
 
 // ============================================
 // PART 3: REPO MAP GENERATION
 // ============================================
 
-function generateRepoMap(dirPath: string = '.', depth: number = 0, maxDepth: number = 3): string {
+export function generateRepoMap(dirPath: string = '.', depth: number = 0, maxDepth: number = 3): string {
   if (depth > maxDepth) return '';
   
   const lines: string[] = [];
   const indent = '  '.repeat(depth);
   
   try {
-    const items = fs.readdirSync(dirPath, { withFileTypes: true });
+    // Sorted: readdir order varies, and a map that changes changes the prompt — no cache hit (see caching.ts)
+    const items = fs.readdirSync(dirPath, { withFileTypes: true })
+      .sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
     
     for (const item of items) {
       // Skip noise
-      if (['node_modules', '.git', 'dist', '.next', '__pycache__'].includes(item.name)) continue;
+      if (['node_modules', '.git', '.agent', 'dist', '.next', '__pycache__'].includes(item.name)) continue;
       
       const fullPath = path.join(dirPath, item.name);
       
@@ -185,18 +266,67 @@ function generateRepoMap(dirPath: string = '.', depth: number = 0, maxDepth: num
 // PART 4: THE AGENT LOOP
 // ============================================
 
-interface AgentConfig {
+export interface AgentConfig {
   maxIterations?: number;
   verbose?: boolean;
+  /** Which model to talk to (see providers.ts). Defaults to Anthropic. */
+  provider?: ModelProvider;
+  /** Retries, backoff and a fallback model for failing model calls (see retry.ts). `false` turns them off. */
+  retry?: Omit<RetryOptions, 'onRetry' | 'onFallback'> | false;
+  /** Where JSONL transcripts are written (see sessions.ts). `false` keeps the session in memory only. */
+  sessionsDir?: string | false;
+  /** Id of a previous session to continue instead of starting fresh */
+  resume?: string;
+  /** Where file checkpoints are kept (see checkpoints.ts). `false` turns undo off. */
+  checkpointsDir?: string | false;
+  /** Where span traces are written (see tracing.ts). `false` turns tracing off. */
+  tracesDir?: string | false;
+  /** Set on sub-agent runs: the span this run's trace hangs under */
+  traceParent?: TraceParent;
+  /** Git mode (see git.ts): dirty-tree check, git_* tools, a commit after each successful task */
+  git?: boolean | GitOptions;
+  /** Plan first, then execute: the model keeps a todo list with update_plan (see planning.ts) */
+  plan?: boolean;
+  /** Where AGENTS.md files are looked for and how many tokens they may use (see instructions.ts). `false` skips them. */
+  instructions?: InstructionOptions | false;
+  /** Run the project's typecheck/lint/test when the model finishes, and feed failures back (see verify.ts) */
+  verify?: boolean | VerifyOptions;
+  /** MCP servers to start for this run, or a hub that is already running (see mcp.ts) */
+  mcp?: Record<string, McpServerConfig> | McpHub;
+  /** Caps for start_process and friends, or a manager that is already running (see processes.ts). `false` removes the tools. */
+  processes?: ProcessLimits | ProcessManager | false;
+  /** Limits for delegate_task sub-agents (see delegation.ts). `false` removes the tool. */
+  delegation?: DelegateLimits | false;
+  /** Only offer these tools to the model — how sub-agents are restricted */
+  allowedTools?: string[];
+  /** Set on sub-agent runs: the session that delegated this one */
+  parentSessionId?: string;
+  /** Set on sub-agent runs: the parent's checkpoints, so its undo and diffs cover this run's edits too */
+  parentCheckpoints?: CheckpointStore;
+  /** Stop gracefully (and resumably) when any of these runs out (see budget.ts) */
+  budget?: BudgetLimits;
+  /** Extra or corrected prices, merged over the built-in table */
+  pricing?: Record<string, ModelPricing>;
+  /** Files whose current content is sent with every request (the REPL's /add) */
+  pinnedFiles?: string[];
+  /** When to compact the conversation (see context.ts) */
+  context?: ContextOptions;
+  /** Cache breakpoints on tools, system prompt and conversation (see caching.ts). Default true. */
+  promptCache?: boolean;
+  /** Policy, prompt and audit log for tool approval (see permissions.ts) */
+  permissions?: Omit<PermissionOptions, 'sessionId' | 'root'>;
+  /** Root and read-only roots that file tools are confined to (see workspace.ts) */
+  workspace?: WorkspaceOptions;
+  /** Max read-only tool calls running at once (see concurrency.ts) */
+  toolConcurrency?: number;
+  /** Cancels the run: aborts the model request and any running tools */
+  signal?: AbortSignal;
+  /** Receives every event of the run (see events.ts); `verbose` adds the terminal output */
+  onEvent?: AgentEventListener;
 }
 
-async function runAgent(task: string, config: AgentConfig = {}): Promise<string> {
-  const { maxIterations = 15, verbose = true } = config;
-  
-  // Generate repo map for context
-  const repoMap = generateRepoMap();
-  
-  const systemPrompt = `You are an expert coding agent. You help users understand and modify code.
+function buildSystemPrompt(repoMap: string): string {
+  return `You are an expert coding agent. You help users understand and modify code.
 
 ## Your Capabilities
 You have tools to read files, write files, search code, list directories, and run shell commands.
@@ -213,98 +343,579 @@ ${repoMap}
 
 ## Important
 - Read files before modifying them to understand context
-- Make targeted, minimal changes
+- Make targeted, minimal changes (edit_file for existing files, write_file for new ones)
 - Test your changes when possible`;
+}
 
-  const messages: Anthropic.MessageParam[] = [
-    { role: "user", content: task }
-  ];
+export async function runAgent(task: string, config: AgentConfig = {}): Promise<string> {
+  const { maxIterations = 15, verbose = true, resume, toolConcurrency = 4, promptCache = true, signal } = config;
+  const baseProvider = config.provider ?? providerFromEnv();
+  const sessionsDir = config.sessionsDir ?? DEFAULT_SESSIONS_DIR;
+  const workspace = new Workspace(config.workspace);
+  const pricing = { ...PRICING, ...config.pricing };
+  const retryOptions = config.retry === false ? null : config.retry ?? {};
+  for (const model of [baseProvider.model, retryOptions?.fallback?.model]) {
+    if (model && config.budget?.maxCostUsd !== undefined && !pricingFor(model, pricing)) {
+      throw new Error(`No price known for model "${model}" — add it with AgentConfig.pricing to use maxCostUsd`);
+    }
+  }
   
-  if (verbose) {
-    console.log("\n" + "═".repeat(60));
-    console.log("🤖 AGENT STARTED");
-    console.log("═".repeat(60));
-    console.log(`\n📋 Task: ${task}\n`);
+  // 🔁 Transient failures are retried, an unavailable model swapped for the fallback
+  const resilient = retryOptions
+    ? withRetry(baseProvider, {
+        ...retryOptions,
+        onRetry: info => emit({ type: "model-retry", iteration, ...info }),
+        onFallback: info => emit({ type: "model-fallback", iteration, ...info })
+      })
+    : baseProvider;
+  // 💰 Every model call goes through the tracker — compaction summaries included
+  const usageTracker = new UsageTracker(pricing);
+  const provider: ModelProvider = {
+    ...baseProvider,
+    async createMessage(request) {
+      const started = Date.now();
+      emit({
+        type: "model-request",
+        iteration,
+        model: resilient.model,
+        messages: request.messages.length,
+        tools: request.tools.map(t => t.name),
+        input: request.messages[request.messages.length - 1]
+      });
+      const response = await resilient.createMessage(request);
+      // Priced as whichever model answered — the fallback, after a switch
+      usageTracker.record(iteration, resilient.model, response.usage);
+      emit({
+        type: "model-response",
+        iteration,
+        model: resilient.model,
+        stopReason: response.stopReason,
+        content: response.content,
+        usage: response.usage,
+        durationMs: Date.now() - started
+      });
+      return response;
+    }
+  };
+  const verifyOptions: VerifyOptions | null = config.verify === true ? {} : config.verify || null;
+  const checks = verifyOptions ? verifyOptions.checks ?? detectChecks(workspace.root) : [];
+  if (verifyOptions && checks.length === 0) {
+    throw new Error(`Verification is on, but no test, typecheck or lint command was found in ${workspace.root} — pass verify.checks`);
   }
+  const gitOptions: GitOptions | null = config.git === true ? {} : config.git || null;
+  if (gitOptions && !(await isGitRepo(workspace.root))) {
+    throw new Error(`Git mode needs a git repository, and ${workspace.root} isn't inside one`);
+  }
+  
+  // 💡 The loop only emits events — printing is a subscriber's job
+  const printer = verbose ? consoleSubscriber() : null;
+  const emit = (event: AgentEvent) => {
+    tracer?.record(event);
+    printer?.(event);
+    config.onEvent?.(event);
+  };
   
+  let systemPrompt: string;
+  let messages: Anthropic.MessageParam[];
+  let originalTask = task;
   let iteration = 0;
+  let restoredPlan: RestoredSession["plan"] = null;
+  let instructionFiles: InstructionFile[] = [];
   
-  while (iteration < maxIterations) {
-    iteration++;
-    if (verbose) console.log(`\n── Iteration ${iteration} ──`);
-    
-    const response = await client.messages.create({
-      model: "claude-sonnet-4-20250514",
-      max_tokens: 4096,
-      system: systemPrompt,
-      tools,
-      messages
+  if (resume) {
+    // 💡 Rebuild the conversation from the transcript and pick up where it stopped
+    if (sessionsDir === false) throw new Error("Cannot resume a session without a sessionsDir");
+    const restored = restoreSession(readTranscript(resume, sessionsDir));
+    if (restored.finished && !task) {
+      throw new Error(`Session ${resume} already finished — give a follow-up task to continue it`);
+    }
+    systemPrompt = restored.systemPrompt;
+    messages = restored.messages;
+    originalTask = restored.task;
+    iteration = restored.iteration;
+    restoredPlan = restored.plan;
+    if (task) appendUserText(messages, task);
+  } else {
+    // Generate repo map for context
+    systemPrompt = buildSystemPrompt(generateRepoMap(workspace.root));
+    // 📖 AGENTS.md files — loaded once; a resumed session keeps the prompt it started with
+    if (config.instructions !== false) {
+      const instructions = loadInstructions(workspace.root, config.instructions);
+      instructionFiles = instructions.files;
+      if (instructions.prompt) systemPrompt += `\n\n${instructions.prompt}`;
+    }
+    if (config.parentSessionId) systemPrompt += `\n\n${SUB_AGENT_PROMPT}`;
+    if (checks.length > 0) {
+      systemPrompt += "\n\n## Verification\nWhen you finish, these run automatically and any failures come back to you:\n" +
+        checks.map(check => `- ${check.kind}: ${check.command}`).join("\n");
+    }
+    messages = [{ role: "user", content: task }];
+  }
+  
+  const sessionId = resume ?? newSessionId();
+  const transcript = sessionsDir === false ? null : new SessionTranscript(sessionId, sessionsDir);
+  if (resume) {
+    transcript?.append({ type: "session_resume", provider: provider.name, model: provider.model });
+  } else {
+    transcript?.append({
+      type: "session_start",
+      sessionId,
+      task,
+      provider: provider.name,
+      model: provider.model,
+      cwd: workspace.root,
+      ...(config.parentSessionId ? { parentSessionId: config.parentSessionId } : {})
     });
-    
-    // Collect text response
-    let textResponse = '';
-    const toolCalls: Array<{ id: string; name: string; input: Record<string, unknown> }> = [];
-    
-    for (const block of response.content) {
-      if (block.type === "text") {
-        textResponse += block.text;
-        if (verbose && block.text) {
-          console.log(`\n💭 ${block.text.substring(0, 200)}${block.text.length > 200 ? '...' : ''}`);
-        }
-      } else if (block.type === "tool_use") {
-        toolCalls.push({
-          id: block.id,
-          name: block.name,
-          input: block.input as Record<string, unknown>
-        });
-      }
+    transcript?.append({ type: "system", prompt: systemPrompt });
+  }
+  if (task) transcript?.append({ type: "user", content: task });
+  const permissions = new PermissionManager({ ...config.permissions, sessionId, root: workspace.root });
+  
+  // 📸 Every file a write tool touches is snapshotted first, one checkpoint per iteration.
+  // A sub-agent snapshots into its parent's store, and the parent's iteration commits it.
+  const checkpointsDir = config.checkpointsDir ?? DEFAULT_CHECKPOINTS_DIR;
+  const checkpoints = config.parentCheckpoints
+    ?? (checkpointsDir === false ? null : new CheckpointStore(workspace.root, sessionId, checkpointsDir));
+  const beforeWrite = checkpoints ? (filePath: string) => checkpoints.beforeWrite(filePath) : undefined;
+  const commitCheckpoint = (iteration: number) => {
+    if (config.parentCheckpoints) return;
+    const checkpoint = checkpoints?.commit(iteration);
+    if (checkpoint) {
+      emit({ type: "checkpoint", iteration, id: checkpoint.id, files: checkpoint.files.map(f => f.path) });
+    }
+  };
+  
+  // 📋 Plan mode: a resumed session keeps planning if it had a plan
+  const plan = config.plan || restoredPlan ? new Plan(restoredPlan?.items, restoredPlan?.dropped) : null;
+  let preexisting: Record<string, string | null> = {};
+  // 🔌 MCP servers we start are ours to stop; a hub passed in (REPL, sub-agents) belongs to the caller
+  const ownsMcp = config.mcp !== undefined && !(config.mcp instanceof McpHub);
+  let mcp: McpHub | null = null;
+  // ⚙️ Background processes die with the session that started them — unless the caller (REPL) owns the manager
+  const ownsProcesses = !(config.processes instanceof ProcessManager);
+  let processes: ProcessManager | null = null;
+  
+  const commitTaskChanges = async (summary: string) => {
+    if (!gitOptions || gitOptions.autoCommit === false) return;
+    try {
+      const commit = await commitAgentChanges(workspace.root, { sessionId, task: task || originalTask, summary, preexisting });
+      if (commit) emit({ type: "git-commit", ...commit });
+    } catch (error) {
+      // 💡 A failed commit (a hook, no user.name...) must not throw away the finished work
+      emit({ type: "error", iteration, message: `Auto-commit failed: ${error instanceof Error ? error.message : String(error)}` });
     }
+  };
+  
+  const finish = async (status: SessionStatus, outcome: string) => {
+    const result = plan && plan.items.length > 0 ? `${outcome}\n\n${plan.summary()}` : outcome;
+    transcript?.append({ type: "session_end", status, result });
+    if (status === "completed") await commitTaskChanges(result);
+    emit({ type: "finished", status, result, iterations: iteration, sessionId, usage: usageTracker.report() });
+    return result;
+  };
+  
+  // 🔭 Spans for the session, its iterations, model calls and tools — a sub-agent's go into its parent's trace
+  const tracesDir = config.tracesDir ?? DEFAULT_TRACES_DIR;
+  const tracer = tracesDir === false ? null : new TraceRecorder(sessionId, tracesDir, config.traceParent);
+  
+  // WHY everything from here on is inside the try: the finally stops what was started, whatever throws
+  try {
+    emit({
+      type: "agent-start",
+      sessionId,
+      task,
+      provider: provider.name,
+      model: provider.model,
+      resumed: Boolean(resume),
+      persisted: transcript !== null
+    });
+    if (instructionFiles.length > 0) emit({ type: "instructions", files: instructionFiles });
     
-    // If no tool calls, we're done
-    if (response.stop_reason === "end_turn" || toolCalls.length === 0) {
-      if (verbose) {
-        console.log("\n" + "═".repeat(60));
-        console.log("✅ AGENT COMPLETE");
-        console.log("═".repeat(60));
-      }
-      return textResponse;
+    // 🌿 Uncommitted work is dealt with first, so the agent's commit holds only its own changes
+    if (gitOptions && resume) {
+      // Asked once, when the session started — but the tree may have changed since
+      preexisting = await snapshotDirtyTree(workspace.root);
+    } else if (gitOptions) {
+      const prepared = await prepareWorkingTree(workspace.root, sessionId, gitOptions.onDirty);
+      preexisting = prepared.preexisting;
+      if (prepared.action !== "clean") emit({ type: "git-dirty", action: prepared.action, files: prepared.files });
     }
+    mcp = config.mcp instanceof McpHub
+      ? config.mcp
+      : config.mcp && Object.keys(config.mcp).length > 0
+        ? await McpHub.start(config.mcp, status => emit({ type: "mcp-server", ...status }))
+        : null;
+    processes = config.processes === false
+      ? null
+      : config.processes instanceof ProcessManager ? config.processes : new ProcessManager(workspace.root, config.processes);
+    const delegation = config.delegation === false ? null : { ...DEFAULT_DELEGATE_LIMITS, ...config.delegation };
+    // 🧰 What this run offers — scheduling, permissions and sub-agent access all go by category
+    const registry = new ToolRegistry([
+      ...tools,
+      ...(gitOptions ? gitTools : []),
+      ...(processes ? processTools : []),
+      ...(plan ? [updatePlanTool] : []),
+      ...(delegation ? [delegateTaskTool] : []),
+      ...(mcp ? mcp.tools() : [])
+    ].filter(tool => !config.allowedTools || config.allowedTools.includes(tool.name)));
+    const agentTools = registry.definitions();
+    const isReadOnly = (name: string) => registry.categoryOf(name) === "read";
+    
+    /**
+     * 🤝 delegate_task: a whole runAgent of its own — fresh messages, fewer
+     * tools, its own limits. Its transcript is a separate session that
+     * points back at this one; only its final answer comes back here.
+     */
+    const runSubAgent = async (iteration: number, toolUseId: string, input: { task: string; access: DelegateAccess }) => {
+      const { task: subTask, access } = input;
+      const limits = delegation ?? DEFAULT_DELEGATE_LIMITS;
+      // A child can't spend more tokens than this run has left
+      const tokensLeft = config.budget?.maxTokens === undefined ? Infinity : config.budget.maxTokens - usageTracker.totalTokens;
+      
+      let childSessionId = "";
+      let childEnd: Extract<AgentEvent, { type: "finished" }> | null = null;
+      const result = await runAgent(subTask, {
+        provider: baseProvider,
+        retry: config.retry,
+        sessionsDir,
+        checkpointsDir: config.checkpointsDir,
+        tracesDir: config.tracesDir,
+        traceParent: tracer?.childContext(toolUseId),
+        context: config.context,
+        promptCache,
+        permissions: config.permissions,
+        workspace: config.workspace,
+        pricing: config.pricing,
+        toolConcurrency,
+        signal,
+        verbose: false,
+        maxIterations: limits.maxIterations,
+        budget: { maxTokens: Math.max(0, Math.min(limits.maxTokens, tokensLeft)) },
+        allowedTools: childToolNames(access, registry.names(), new Set(registry.names().filter(isReadOnly))),
+        mcp: mcp ?? undefined,
+        processes: processes ?? false,
+        delegation: false,
+        parentSessionId: sessionId,
+        parentCheckpoints: checkpoints ?? undefined,
+        onEvent: event => {
+          if (event.type === "agent-start") {
+            childSessionId = event.sessionId;
+            emit({ type: "delegate-start", iteration, childSessionId, task: subTask, access });
+          } else if (event.type === "finished") {
+            childEnd = event;
+          }
+        }
+      });
+      
+      const end = childEnd as Extract<AgentEvent, { type: "finished" }> | null;
+      if (!end) return `Error: sub-agent ${childSessionId} ended without a result`;
+      usageTracker.absorb(iteration, end.usage);
+      transcript?.append({ type: "delegation", iteration, toolUseId, childSessionId, task: subTask, status: end.status });
+      emit({ type: "delegate-end", iteration, childSessionId, status: end.status, iterations: end.iterations, usage: end.usage });
+      return delegationResult(childSessionId, end.status, end.iterations, result);
+    };
     
-    // Execute tools and collect results
-    messages.push({ role: "assistant", content: response.content });
+    // Iteration numbers continue across resumes; each run gets its own budget
+    const firstIteration = iteration + 1;
+    const lastIteration = iteration + maxIterations;
+    const contextManager = new ContextManager(config.context, {
+      isWrite: name => registry.categoryOf(name) === "write",
+      root: workspace.root
+    });
+    // What this run did so far — the partial result if a budget runs out
+    let lastText = '';
+    const actions: Array<{ name: string; input: Record<string, unknown> }> = [];
+    // 🧪 Verification runs only once the model has changed something
+    let changedFiles = false;
+    let verifyAttempts = 0;
+    const maxVerifyAttempts = verifyOptions?.maxAttempts ?? 3;
     
-    const toolResults: Anthropic.ToolResultBlockParam[] = [];
-    for (const tool of toolCalls) {
-      const result = executeTool(tool.name, tool.input);
-      toolResults.push({
-        type: "tool_result",
-        tool_use_id: tool.id,
-        content: result
+    while (iteration < lastIteration) {
+      signal?.throwIfAborted();
+      
+      // 💰 Checked before every model call; the tools of the last turn have already run
+      const overBudget = config.budget ? usageTracker.exceeded(config.budget) : null;
+      if (overBudget) return await finish("budget_exceeded", partialResult(overBudget, lastText, actions));
+      
+      iteration++;
+      emit({ type: "iteration-start", iteration });
+      
+      // 💡 Compact BEFORE the request that would overflow, not after it fails
+      if (contextManager.needsCompaction(systemPrompt, messages)) {
+        const { messages: compacted, ...stats } =
+          await contextManager.compact(originalTask, systemPrompt, messages, provider);
+        messages = compacted;
+        transcript?.append({ type: "compaction", iteration, ...stats });
+        emit({ type: "compaction", iteration, ...stats });
+      }
+      
+      const current = iteration;
+      // The first turn of a plan-mode run can only plan
+      const planning = plan !== null && plan.items.length === 0 && iteration === firstIteration;
+      // 💡 Breakpoints first, then the plan and pinned files — those change every turn
+      const cacheable = promptCache ? withCacheBreakpoints(messages) : messages;
+      const response = await provider.createMessage({
+        system: systemPrompt,
+        tools: planning ? registry.only([updatePlanTool.name]).definitions() : agentTools,
+        messages: withPinnedFiles(plan ? withPlan(cacheable, plan) : cacheable, readPinnedFiles(workspace, config.pinnedFiles)),
+        maxTokens: 4096,
+        promptCache,
+        signal,
+        onTextDelta: text => emit({ type: "assistant-text-delta", iteration: current, text })
+      });
+      contextManager.recordUsage(response.usage, messages.length);
+      transcript?.append({ type: "assistant", iteration, content: response.content, usage: response.usage });
+      emit({ type: "usage", iteration, usage: response.usage });
+      
+      // Collect text response
+      let textResponse = '';
+      const toolCalls: Array<{ id: string; name: string; input: Record<string, unknown> }> = [];
+      
+      for (const block of response.content) {
+        if (block.type === "text") {
+          textResponse += block.text;
+        } else if (block.type === "tool_use") {
+          toolCalls.push({
+            id: block.id,
+            name: block.name,
+            input: block.input as Record<string, unknown>
+          });
+        }
+      }
+      
+      // If no tool calls, we're done — unless the checks say otherwise
+      if (response.stopReason === "end_turn" || toolCalls.length === 0) {
+        if (!verifyOptions || !changedFiles) return await finish("completed", textResponse);
+        
+        verifyAttempts++;
+        emit({ type: "verify-start", iteration, attempt: verifyAttempts, checks });
+        const checkResults = await runChecks(checks, workspace.root, { timeoutMs: verifyOptions.timeoutMs, signal });
+        const passed = checkResults.every(result => result.passed);
+        transcript?.append({ type: "verification", iteration, attempt: verifyAttempts, passed, results: checkResults });
+        emit({ type: "verify-result", iteration, attempt: verifyAttempts, maxAttempts: maxVerifyAttempts, passed, results: checkResults });
+        const summary = verificationSummary(checkResults, verifyAttempts);
+        if (passed) return await finish("completed", `${textResponse}\n\n${summary}`);
+        
+        // 💡 The failures become the next user message — the model keeps going
+        const feedback = formatFeedback(checkResults, verifyAttempts, maxVerifyAttempts);
+        if (response.content.length > 0) messages.push({ role: "assistant", content: response.content });
+        appendUserText(messages, feedback);
+        // Also in the transcript, so --resume continues with the failures
+        transcript?.append({ type: "user", content: feedback });
+        if (verifyAttempts >= maxVerifyAttempts) return await finish("verification_failed", `${textResponse}\n\n${summary}`);
+        continue;
+      }
+      if (textResponse.trim()) lastText = textResponse;
+      
+      // Execute tools and collect results
+      messages.push({ role: "assistant", content: response.content });
+      
+      // 💡 Inputs are checked, then the policy decides — BEFORE anything touches
+      // the disk or the shell. Asked one at a time, in order — you can't answer
+      // two prompts at once, and nobody should be asked about a call that can't run.
+      const parsed = toolCalls.map(tool => registry.parse(tool.name, tool.input));
+      const decisions: PermissionDecision[] = [];
+      for (const [i, tool] of toolCalls.entries()) {
+        emit({ type: "tool-call", iteration, ...tool });
+        // A restricted run (a read-only sub-agent) refuses tools it was never offered
+        decisions.push(!registry.has(tool.name)
+          ? { allowed: false, source: "rule", reason: `${tool.name} is not available in this run` }
+          : parsed[i].success
+            ? await permissions.check(tool.name, tool.input, registry.categoryOf(tool.name))
+            // Invalid input: execute() answers with the validation error, nothing to approve
+            : { allowed: true, source: "default" });
+      }
+      
+      // Reads run side by side; writes and commands run alone, in order
+      const results = await runScheduled(
+        toolCalls,
+        async (tool, i) => {
+          const started = Date.now();
+          const denied = decisions[i].allowed ? undefined : decisions[i].reason;
+          const result = denied
+            ? `❌ Permission denied: ${denied}`
+            : await registry.execute(tool.name, tool.input, {
+                workspace,
+                signal,
+                beforeWrite,
+                plan: plan ?? undefined,
+                processes: processes ?? undefined,
+                delegate: delegation ? input => runSubAgent(current, tool.id, input) : undefined
+              });
+          emit({ type: "tool-result", iteration: current, id: tool.id, name: tool.name, result, durationMs: Date.now() - started, denied });
+          return result;
+        },
+        { concurrency: toolConcurrency, isReadOnly: tool => isReadOnly(tool.name) }
+      );
+      
+      const toolResults: Anthropic.ToolResultBlockParam[] = [];
+      toolCalls.forEach((tool, i) => {
+        if (decisions[i].allowed && !results[i].startsWith("Error:")) {
+          actions.push(tool);
+          if (changesFiles(tool, registry)) changedFiles = true;
+        }
+        transcript?.append({
+          type: "tool_result",
+          iteration,
+          toolUseId: tool.id,
+          name: tool.name,
+          input: tool.input,
+          content: results[i]
+        });
+        toolResults.push({
+          type: "tool_result",
+          tool_use_id: tool.id,
+          content: results[i]
+        });
       });
+      
+      messages.push({ role: "user", content: toolResults });
+      commitCheckpoint(iteration);
+      if (plan && toolCalls.some((tool, i) => tool.name === "update_plan" && !results[i].startsWith("Error:"))) {
+        transcript?.append({ type: "plan", iteration, items: plan.items, dropped: plan.dropped });
+        emit({ type: "plan", iteration, items: plan.items.map(item => ({ ...item })) });
+      }
     }
     
-    messages.push({ role: "user", content: toolResults });
+    return await finish("max_iterations", "Max iterations reached");
+  } catch (error) {
+    // Writes that happened before the failure still get their checkpoint
+    commitCheckpoint(iteration);
+    // 💡 A model that won't answer ends the run, not the process — the transcript has
+    // everything up to the failed call, so --resume sends that call again
+    if (error instanceof ModelCallError) {
+      const message = `Model call failed: ${error.message}`;
+      emit({ type: "error", iteration, message });
+      return await finish("failed", message);
+    }
+    emit({ type: "error", iteration, message: error instanceof Error ? error.message : String(error) });
+    throw error;
+  } finally {
+    if (ownsMcp) mcp?.close();
+    if (ownsProcesses) await processes?.close();
+    tracer?.close();
   }
-  
-  return "Max iterations reached";
+}
+
+/** Pinned files: inside the workspace like read_file, capped at 10,000 chars */
+function readPinnedFiles(workspace: Workspace, paths: string[] = []): PinnedFile[] {
+  return paths.map(file => {
+    try {
+      const content = fs.readFileSync(workspace.resolve(file, 'read'), 'utf-8');
+      return { path: file, content: content.length > 10000 ? content.substring(0, 10000) + "\n...[truncated]" : content };
+    } catch {
+      return { path: file, content: null };
+    }
+  });
+}
+
+/** Calls after which the project needs verifying again */
+function changesFiles(tool: { name: string; input: Record<string, unknown> }, registry: ToolRegistry): boolean {
+  return registry.categoryOf(tool.name) === "write" ||
+    (tool.name === delegateTaskTool.name && tool.input.access === "read_write");
+}
+
+/**
+ * ▶️ The same run, consumed as an async iterator:
+ *
+ *   for await (const event of streamAgent("Fix the login bug")) {
+ *     if (event.type === "tool-call") showSpinner(event.name);
+ *   }
+ */
+export function streamAgent(task: string, config: AgentConfig = {}): AsyncGenerator<AgentEvent> {
+  return iterateEvents(emit => runAgent(task, {
+    verbose: false,
+    ...config,
+    onEvent: event => {
+      config.onEvent?.(event);
+      emit(event);
+    }
+  }));
 }
 
 // ============================================
 // PART 5: MAIN - DEMO
 // ============================================
 
+function runCheckpointCommand(command: string, arg?: string) {
+  if (command === "restore") {
+    if (!arg) throw new Error("Usage: restore <checkpoint-id>");
+    // Checkpoint ids are "<sessionId>.<iteration>"
+    const store = CheckpointStore.open(arg.slice(0, arg.lastIndexOf(".")));
+    store.restore(arg).forEach(printRestoreResult);
+    return;
+  }
+  
+  const store = arg ? CheckpointStore.open(arg) : CheckpointStore.latest();
+  if (!store) {
+    console.log("No checkpoints yet");
+    return;
+  }
+  if (command === "undo") printRestoreResult(store.undo());
+  else if (command === "redo") printRestoreResult(store.redo());
+  else printCheckpoints(store);
+}
+
 async function main() {
-  console.log("🚀 Complete AI Coding Agent Demo\n");
+  // --json: machine-readable JSON-lines events instead of the emoji output
+  const json = process.argv.includes("--json");
+  // --git: dirty-tree check, git_* tools and a commit after the task (see git.ts)
+  const git = process.argv.includes("--git");
+  // --plan: write a todo list first, then work through it (see planning.ts)
+  const plan = process.argv.includes("--plan");
+  // --verify: run the project's typecheck/lint/test after edits, fix until green (see verify.ts)
+  const verify = process.argv.includes("--verify");
+  const args = process.argv.slice(2).filter(arg => !["--json", "--git", "--plan", "--verify"].includes(arg));
+  
+  // ▶️ Browse past runs:  sessions list  |  sessions show <id>
+  if (args[0] === "sessions") {
+    if (args[1] === "show" && args[2]) printSession(args[2]);
+    else printSessionList();
+    return;
+  }
+  
+  // ▶️ Undo agent edits:  checkpoints [session]  |  undo [session]  |  redo [session]  |  restore <checkpoint-id>
+  if (["checkpoints", "undo", "redo", "restore"].includes(args[0])) {
+    runCheckpointCommand(args[0], args[1]);
+    return;
+  }
+  
+  // ▶️ Inspect a run:  trace [session]  |  trace <session> <span-id>
+  if (args[0] === "trace") {
+    const sessionId = args[1] ?? latestTrace();
+    if (!sessionId) console.log("No traces yet");
+    else if (args[2]) printSpan(sessionId, args[2]);
+    else printTraceTimeline(sessionId);
+    return;
+  }
+  
+  // ▶️ Continue a previous run:  --resume <id> [follow-up task]
+  if (args[0] === "--resume" && !args[1]) throw new Error("Usage: --resume <session-id> [follow-up task]");
+  const resume = args[0] === "--resume" ? args[1] : undefined;
   
   // Get task from command line or use default
-  const task = process.argv[2] || 
+  const task = resume ? (args[2] ?? "") : args[0] || 
     "List the files in this project and explain what this codebase does based on the file structure.";
   
-  const result = await runAgent(task);
+  // 🔌 Tools from the MCP servers in .agent/mcp.json, if there is one
+  const mcp = loadMcpConfig();
+  // 🔀 AGENT_FALLBACK_MODEL takes over when the main model is unavailable
+  const retry = { fallback: fallbackProviderFromEnv() };
+  
+  if (json) {
+    await runAgent(task, { resume, git, plan, verify, mcp, retry, verbose: false, onEvent: jsonLinesSubscriber() });
+    return;
+  }
+  
+  console.log("🚀 Complete AI Coding Agent Demo\n");
+  const result = await runAgent(task, { resume, git, plan, verify, mcp, retry });
   
   console.log("\n📝 FINAL RESPONSE:");
   console.log("-".repeat(40));
   console.log(result);
 }
 
-main().catch(console.error);
+// Only run the demo when executed directly, so tests can import runAgent
+if (process.argv[1] === fileURLToPath(import.meta.url)) {
+  main().catch(console.error);
+}
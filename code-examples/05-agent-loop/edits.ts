@@ -0,0 +1,241 @@
+/**
+ * 🎓 MODULE 5: Targeted Edits — Module 4's Engine as a Tool
+ *
+ * With only write_file, changing one line of a 500-line file means the
+ * model re-types all 500 lines. That's slow, expensive, and the model
+ * quietly drops code it didn't bother to reproduce.
+ *
+ * edit_file takes ONLY the change, in either format from Module 4:
+ *
+ *   <<<<<<< SEARCH              @@ ... @@
+ *   old code                     context
+ *   =======                     -old code
+ *   new code                    +new code
+ *   >>>>>>> REPLACE              context
+ *
+ * 💡 KEY INSIGHT: When an edit doesn't apply, the error IS the prompt for
+ * the retry. "Could not apply" makes the model guess. "Block 2 of 3: the
+ * SEARCH text matches 2 places — add surrounding lines" gets it right.
+ */
+
+import {
+  applyDiff,
+  applySearchReplace,
+  calculateSimilarity,
+  findPatternFuzzy,
+  parseDiff,
+  parseSearchReplaceBlocks,
+  type SearchReplaceBlock
+} from '../04-edits/demo.js';
+
+export interface EditResult {
+  success: boolean;
+  content?: string;
+  error?: string;
+  /** How the edit went in — e.g. which blocks only matched approximately */
+  notes?: string[];
+}
+
+// ============================================
+// PART 1: PICK THE FORMAT
+// ============================================
+
+/**
+ * 📺 SHOW THIS: Search/replace if we see the markers, a diff if we see a
+ * hunk header. Anything else is an error that shows both formats.
+ */
+export function applyEdits(content: string, edits: string, filePath: string): EditResult {
+  // Models on Windows-y prompts sometimes send \r\n — the parsers expect \n
+  const text = edits.replace(/\r\n/g, '\n');
+
+  if (text.includes('<<<<<<< SEARCH')) return applyBlocks(content, text);
+  if (/^@@/m.test(text)) return applyHunks(content, text, filePath);
+
+  return {
+    success: false,
+    error: 'No edits found. Send search/replace blocks:\n' +
+      '<<<<<<< SEARCH\n(exact current lines)\n=======\n(new lines)\n>>>>>>> REPLACE\n' +
+      'or a unified diff with @@ hunk headers.'
+  };
+}
+
+// ============================================
+// PART 2: SEARCH/REPLACE BLOCKS
+// ============================================
+
+/**
+ * Apply blocks one at a time, so a failure names its block. Exact match
+ * first; if that fails, Module 4's fuzzy line matcher gets a try.
+ */
+function applyBlocks(content: string, text: string): EditResult {
+  const blocks = parseSearchReplaceBlocks(text);
+  const markers = text.match(/<<<<<<< SEARCH/g)?.length ?? 0;
+  if (blocks.length < markers) {
+    return {
+      success: false,
+      error: `Found ${markers} "<<<<<<< SEARCH" marker(s) but only ${blocks.length} complete block(s). ` +
+        'Each block needs "=======" and ">>>>>>> REPLACE" on their own lines.'
+    };
+  }
+
+  let result = content;
+  const notes: string[] = [];
+
+  for (const [index, block] of blocks.entries()) {
+    const label = `Block ${index + 1} of ${blocks.length}`;
+    const occurrences = countOccurrences(result, block.search);
+
+    // ⚠️ applySearchReplace replaces the FIRST match — with two, that may be the wrong one
+    if (occurrences > 1) {
+      return {
+        success: false,
+        error: `${label}: the SEARCH text matches ${occurrences} places. ` +
+          'Add surrounding lines so it matches exactly one. No changes were made.'
+      };
+    }
+
+    if (occurrences === 1) {
+      result = applySearchReplace(result, [block]).content!;
+      continue;
+    }
+
+    const fuzzy = replaceFuzzy(result, block);
+    if (fuzzy !== null) {
+      result = fuzzy;
+      notes.push(`${label} only matched after ignoring whitespace — check the indentation`);
+      continue;
+    }
+
+    return { success: false, error: `${label}: ${explainMiss(result, block.search.split('\n'))} No changes were made.` };
+  }
+
+  return { success: true, content: result, notes };
+}
+
+function countOccurrences(haystack: string, needle: string): number {
+  if (!needle) return 0;
+  let count = 0;
+  for (let i = haystack.indexOf(needle); i !== -1; i = haystack.indexOf(needle, i + 1)) count++;
+  return count;
+}
+
+/**
+ * Fuzzy fallback: find the lines that look like SEARCH, swap in REPLACE.
+ *
+ * ⚠️ findPatternFuzzy alone would happily match `const x = 1` for
+ * `const y = 1` (92% similar). A candidate only counts if it differs
+ * from SEARCH in whitespace alone — that's the mistake models make.
+ */
+function replaceFuzzy(content: string, block: SearchReplaceBlock): string | null {
+  const lines = content.split('\n');
+  const pattern = block.search.split('\n');
+  for (let offset = 0; offset <= lines.length - pattern.length; offset++) {
+    const found = findPatternFuzzy(lines.slice(offset), pattern);
+    if (found === -1) return null;
+    const start = offset + found;
+    if (squash(lines.slice(start, start + pattern.length).join('\n')) === squash(block.search)) {
+      return [...lines.slice(0, start), ...block.replace.split('\n'), ...lines.slice(start + pattern.length)].join('\n');
+    }
+    offset = start;
+  }
+  return null;
+}
+
+function squash(text: string): string {
+  return text.replace(/\s+/g, '');
+}
+
+// ============================================
+// PART 3: UNIFIED DIFFS
+// ============================================
+
+/**
+ * applyDiff already falls back to fuzzy matching per hunk. We feed it one
+ * hunk at a time (last first, like applyDiff itself) to know WHICH failed.
+ */
+function applyHunks(content: string, text: string, filePath: string): EditResult {
+  // 💡 parseDiff needs a "+++" header; models often send bare hunks
+  const diff = parseDiff(/^\+\+\+ /m.test(text) ? text : `--- a/${filePath}\n+++ b/${filePath}\n${text}`);
+  if (!diff || diff.hunks.length === 0) {
+    return { success: false, error: 'Could not parse the diff. Each hunk starts with "@@" and its lines with " ", "-" or "+".' };
+  }
+
+  let result = content;
+  const notes: string[] = [];
+  for (let index = diff.hunks.length - 1; index >= 0; index--) {
+    const hunk = diff.hunks[index];
+    const pattern = [...hunk.contextBefore, ...hunk.removals, ...hunk.contextAfter];
+    // Same guard as replaceFuzzy: applyDiff's fuzzy fallback may only forgive whitespace
+    if (!squash(result).includes(squash(pattern.join('\n')))) {
+      return {
+        success: false,
+        error: `Hunk ${index + 1} of ${diff.hunks.length}: ${explainMiss(result, pattern)} No changes were made.`
+      };
+    }
+    // ⚠️ applyDiff also takes the FIRST match — same rule as search/replace blocks
+    const occurrences = countLineMatches(result.split('\n'), pattern);
+    if (occurrences > 1) {
+      return {
+        success: false,
+        error: `Hunk ${index + 1} of ${diff.hunks.length}: its context and removed lines match ${occurrences} places. ` +
+          'Add surrounding lines so it matches exactly one. No changes were made.'
+      };
+    }
+    const applied = applyDiff(result, { filePath: diff.filePath, hunks: [hunk] });
+    if (!applied.success) {
+      return {
+        success: false,
+        error: `Hunk ${index + 1} of ${diff.hunks.length}: ${explainMiss(result, pattern)} No changes were made.`
+      };
+    }
+    if (!result.includes(pattern.join('\n'))) {
+      notes.push(`Hunk ${index + 1} only matched after ignoring whitespace — its context lines were written as sent, check the indentation`);
+    }
+    result = applied.content!;
+  }
+
+  return { success: true, content: result, notes: notes.reverse() };
+}
+
+/** Where the lines match exactly — or, if nowhere, where they match ignoring whitespace */
+function countLineMatches(lines: string[], pattern: string[]): number {
+  if (pattern.length === 0) return 0;
+  const count = (same: (a: string, b: string) => boolean) => {
+    let found = 0;
+    for (let i = 0; i <= lines.length - pattern.length; i++) {
+      if (pattern.every((line, j) => same(lines[i + j], line))) found++;
+    }
+    return found;
+  };
+  return count((a, b) => a === b) || count((a, b) => squash(a) === squash(b));
+}
+
+// ============================================
+// PART 4: EXPLAINING A MISS
+// ============================================
+
+/**
+ * Tell the model what the file ACTUALLY has where it thinks its text is:
+ * the line most similar to the first line it searched for.
+ */
+function explainMiss(content: string, pattern: string[]): string {
+  const first = pattern.find(line => line.trim()) ?? '';
+  if (!first) return 'the text to find is empty.';
+
+  const lines = content.split('\n');
+  let best = { line: -1, score: 0 };
+  lines.forEach((line, i) => {
+    // WHY skip short lines: calculateSimilarity scores any substring (like "}") at 0.9
+    if (line.trim().length < first.trim().length / 2) return;
+    const score = calculateSimilarity(first.trim(), line.trim());
+    if (score > best.score) best = { line: i, score };
+  });
+
+  const missing = `could not find the lines starting with "${first.trim().substring(0, 80)}".`;
+  if (best.line === -1 || best.score < 0.5) {
+    return `${missing} Nothing similar is in the file — read_file it again before editing.`;
+  }
+  const actual = lines.slice(best.line, best.line + Math.min(pattern.length, 5)).join('\n');
+  return `${missing} Closest match is at line ${best.line + 1}:\n${actual}\n` +
+    'Copy the current lines exactly (including indentation) and retry.';
+}
@@ -0,0 +1,254 @@
+/**
+ * 🎓 MODULE 5: Agent Events
+ *
+ * If the loop prints with console.log, the terminal is the ONLY place the
+ * agent can live. A web UI, an IDE panel or a log pipeline can't use it.
+ *
+ * THE FIX: the loop emits typed EVENTS and knows nothing about output.
+ * Anything that wants to show progress subscribes:
+ *
+ *   runAgent ──emit──► consoleSubscriber     (the emoji terminal output)
+ *                 ├──► jsonLinesSubscriber   (one JSON object per line)
+ *                 └──► your UI
+ *
+ * Or consume the run as an async iterator:
+ *
+ *   for await (const event of streamAgent(task)) { ... }
+ */
+
+import type Anthropic from '@anthropic-ai/sdk';
+import type { AssistantBlock, ModelResponse, ModelUsage } from './providers.js';
+import type { DirtyTreeAction } from './git.js';
+import type { SessionStatus } from './sessions.js';
+import { formatUsageReport, type UsageReport } from './budget.js';
+import { Plan, type PlanItem } from './planning.js';
+import type { DelegateAccess } from './delegation.js';
+import type { McpServerStatus } from './mcp.js';
+import type { ClassifiedError } from './retry.js';
+import type { InstructionFile } from './instructions.js';
+import { formatFailure, type CheckResult, type VerifyCheck } from './verify.js';
+
+// ============================================
+// PART 1: THE EVENTS
+// ============================================
+
+export type AgentEvent =
+  | { type: 'agent-start'; sessionId: string; task: string; provider: string; model: string; resumed: boolean; persisted: boolean }
+  | { type: 'instructions'; files: InstructionFile[] }
+  | ({ type: 'mcp-server' } & McpServerStatus)
+  | { type: 'iteration-start'; iteration: number }
+  | { type: 'assistant-text-delta'; iteration: number; text: string }
+  | { type: 'tool-call'; iteration: number; id: string; name: string; input: Record<string, unknown> }
+  | {
+      type: 'tool-result';
+      iteration: number;
+      id: string;
+      name: string;
+      result: string;
+      durationMs: number;
+      /** Set when the permission policy refused the call */
+      denied?: string;
+    }
+  | { type: 'plan'; iteration: number; items: PlanItem[] }
+  | { type: 'delegate-start'; iteration: number; childSessionId: string; task: string; access: DelegateAccess }
+  | { type: 'delegate-end'; iteration: number; childSessionId: string; status: SessionStatus; iterations: number; usage: UsageReport }
+  | { type: 'verify-start'; iteration: number; attempt: number; checks: VerifyCheck[] }
+  | { type: 'verify-result'; iteration: number; attempt: number; maxAttempts: number; passed: boolean; results: CheckResult[] }
+  | { type: 'checkpoint'; iteration: number; id: string; files: string[] }
+  | { type: 'git-dirty'; action: DirtyTreeAction; files: string[] }
+  | { type: 'git-commit'; hash: string; subject: string; files: string[]; skipped: string[] }
+  | { type: 'usage'; iteration: number; usage: ModelUsage }
+  /** Every model call, compaction summaries included — `input` is the newest message, the rest is in earlier spans */
+  | { type: 'model-request'; iteration: number; model: string; messages: number; tools: string[]; input: Anthropic.MessageParam | undefined }
+  | {
+      type: 'model-response';
+      iteration: number;
+      model: string;
+      stopReason: ModelResponse['stopReason'];
+      content: AssistantBlock[];
+      usage: ModelUsage;
+      durationMs: number;
+    }
+  | { type: 'compaction'; iteration: number; tokensBefore: number; tokensAfter: number; staleReadsDropped: number; messagesSummarized: number }
+  | { type: 'model-retry'; iteration: number; model: string; attempt: number; maxRetries: number; delayMs: number; error: ClassifiedError }
+  | { type: 'model-fallback'; iteration: number; from: string; to: string; error: ClassifiedError }
+  | { type: 'error'; iteration: number; message: string }
+  | { type: 'finished'; status: SessionStatus; result: string; iterations: number; sessionId: string; usage: UsageReport };
+
+export type AgentEventListener = (event: AgentEvent) => void;
+
+// ============================================
+// PART 2: SUBSCRIBERS
+// ============================================
+
+/**
+ * 📺 SHOW THIS: The terminal output is now just one subscriber.
+ *
+ * Text arrives in small deltas; we collect them and print one trimmed
+ * 💭 line once the model moves on to something else.
+ */
+export function consoleSubscriber(): AgentEventListener {
+  let thought = '';
+
+  const flushThought = () => {
+    if (thought) {
+      console.log(`\n💭 ${thought.substring(0, 200)}${thought.length > 200 ? '...' : ''}`);
+    }
+    thought = '';
+  };
+
+  return event => {
+    if (event.type === 'assistant-text-delta') {
+      thought += event.text;
+      return;
+    }
+    flushThought();
+
+    switch (event.type) {
+      case 'agent-start':
+        console.log("\n" + "═".repeat(60));
+        console.log(event.resumed ? "🔁 AGENT RESUMED" : "🤖 AGENT STARTED");
+        console.log("═".repeat(60));
+        if (event.task) console.log(`\n📋 Task: ${event.task}`);
+        console.log(`🧠 Model: ${event.provider}/${event.model}`);
+        if (event.persisted) console.log(`💾 Session: ${event.sessionId}`);
+        console.log();
+        break;
+      case 'instructions':
+        for (const file of event.files) {
+          const status = file.status === 'loaded' ? `${file.tokens} tokens` : file.status;
+          const includes = file.includes.length > 0 ? `, +${file.includes.length} included` : '';
+          console.log(`📖 ${file.path} (${file.scope}, ${status}${includes})`);
+          for (const warning of file.warnings) console.log(`   ⚠️  ${warning}`);
+        }
+        break;
+      case 'mcp-server':
+        if (event.status === 'started') console.log(`🔌 MCP server ${event.name}: ${event.tools} tool(s)`);
+        else if (event.status === 'failed') console.log(`❌ MCP server ${event.name} failed to start: ${event.error}`);
+        else console.log(`\n⚠️  MCP server ${event.name} ${event.error} — it restarts on its next tool call`);
+        break;
+      case 'iteration-start':
+        console.log(`\n── Iteration ${event.iteration} ──`);
+        break;
+      case 'compaction':
+        console.log(`\n🗜️  Compacted context: ~${event.tokensBefore} → ~${event.tokensAfter} tokens ` +
+          `(${event.staleReadsDropped} stale reads dropped, ${event.messagesSummarized} messages summarized)`);
+        break;
+      case 'tool-call':
+        console.log(`  🔧 ${event.name}(${JSON.stringify(event.input).substring(0, 100)}...)`);
+        break;
+      case 'tool-result':
+        if (event.denied) console.log(`  🚫 ${event.name} refused: ${event.denied}`);
+        break;
+      case 'plan':
+        console.log(`  📋 Plan:\n${new Plan(event.items).render().replace(/^/gm, '     ')}`);
+        break;
+      case 'delegate-start':
+        console.log(`  🤝 Sub-agent ${event.childSessionId} (${event.access.replace('_', '-')}): ${event.task.substring(0, 100)}`);
+        break;
+      case 'delegate-end':
+        console.log(`  🤝 Sub-agent ${event.childSessionId} ${event.status} after ${event.iterations} iteration(s), ` +
+          `${(event.usage.totals.inputTokens + event.usage.totals.outputTokens + event.usage.totals.cacheReadTokens +
+            event.usage.totals.cacheWriteTokens).toLocaleString()} tokens`);
+        break;
+      case 'verify-start':
+        console.log(`\n🧪 Verifying (attempt ${event.attempt}): ${event.checks.map(check => check.command).join(', ')}`);
+        break;
+      case 'verify-result':
+        for (const result of event.results) {
+          const problems = result.failures.length > 0 ? `${result.failures.length} problem(s)` : `exit code ${result.exitCode ?? 'none'}`;
+          console.log(`   ${result.passed ? '✅' : '❌'} ${result.kind} (${(result.durationMs / 1000).toFixed(1)}s)${result.passed ? '' : ` — ${problems}`}`);
+          for (const failure of result.failures.slice(0, 3)) console.log(`      ${formatFailure(failure).substring(0, 120)}`);
+        }
+        if (!event.passed) {
+          console.log(event.attempt < event.maxAttempts
+            ? `   🔁 Sent the failures back to the model (attempt ${event.attempt} of ${event.maxAttempts})`
+            : `   ⚠️  Still failing after ${event.maxAttempts} attempts — giving up`);
+        }
+        break;
+      case 'checkpoint':
+        console.log(`  📸 Checkpoint ${event.id}: ${event.files.join(', ')}`);
+        break;
+      case 'git-dirty':
+        console.log(`🌿 ${event.files.length} uncommitted file(s): ${event.action === 'stash'
+          ? 'stashed (restore with `git stash pop`)'
+          : event.action === 'commit' ? 'committed as WIP' : 'left alone, and left out of the agent commit'}`);
+        break;
+      case 'git-commit':
+        console.log(`\n🌿 Committed ${event.hash.substring(0, 8)} "${event.subject}" (${event.files.length} file(s))`);
+        if (event.skipped.length > 0) {
+          console.log(`   ⚠️  Not committed, they had uncommitted changes before the run: ${event.skipped.join(', ')}`);
+        }
+        break;
+      case 'model-retry':
+        console.log(`  ⏳ ${event.error.kind}${event.error.status ? ` (${event.error.status})` : ''} — ` +
+          `retry ${event.attempt}/${event.maxRetries} in ${(event.delayMs / 1000).toFixed(1)}s`);
+        break;
+      case 'model-fallback':
+        console.log(`  🔀 ${event.from} unavailable (${event.error.kind}) — switching to ${event.to}`);
+        break;
+      case 'error':
+        console.log(`\n❌ ${event.message}`);
+        break;
+      case 'finished':
+        console.log("\n" + formatUsageReport(event.usage));
+        if (event.status === 'completed') {
+          console.log("\n" + "═".repeat(60));
+          console.log("✅ AGENT COMPLETE");
+          console.log("═".repeat(60));
+        } else {
+          console.log(`\n⏸️  Stopped at iteration ${event.iterations}. Continue with: --resume ${event.sessionId}`);
+        }
+        break;
+    }
+  };
+}
+
+/**
+ * ▶️ For machines: one JSON object per line, nothing trimmed.
+ *   npm run demo:05 -- --json "task" | jq 'select(.type == "tool-call")'
+ */
+export function jsonLinesSubscriber(
+  write: (line: string) => void = line => process.stdout.write(line)
+): AgentEventListener {
+  return event => write(JSON.stringify({ timestamp: new Date().toISOString(), ...event }) + '\n');
+}
+
+// ============================================
+// PART 3: ASYNC ITERATOR
+// ============================================
+
+/**
+ * Turn "a function that emits events" into an async iterable.
+ *
+ * 🔧 HOW IT WORKS: Events go into a queue. The consumer pulls from it,
+ * and waits on a promise when it's empty. When the run finishes (or
+ * throws) the iterator ends (or rethrows).
+ */
+export async function* iterateEvents(
+  run: (emit: AgentEventListener) => Promise<unknown>
+): AsyncGenerator<AgentEvent> {
+  const queue: AgentEvent[] = [];
+  let wake: (() => void) | null = null;
+  let done = false;
+  let failure: unknown = null;
+
+  run(event => {
+    queue.push(event);
+    wake?.();
+  }).then(
+    () => { done = true; wake?.(); },
+    error => { failure = error; done = true; wake?.(); }
+  );
+
+  while (true) {
+    if (queue.length > 0) {
+      yield queue.shift()!;
+      continue;
+    }
+    if (done) break;
+    await new Promise<void>(resolve => (wake = resolve));
+    wake = null;
+  }
+  if (failure) throw failure;
+}
@@ -0,0 +1,428 @@
+/**
+ * 🎓 MODULE 5: Git-Aware Agent Mode
+ *
+ * The agent edits files, but version control is the user's safety net.
+ * Three things make the two work together:
+ *
+ * 1. BEFORE the run — a dirty working tree mixes the user's half-done work
+ *    with whatever the agent changes. We offer to stash or commit it first.
+ * 2. AFTER a successful task — the agent's changes become one commit with a
+ *    generated message and an `Agent-Session:` trailer, so you can always
+ *    find (and revert) what the agent did:
+ *
+ *      git log --grep "Agent-Session:"
+ *
+ * 3. DURING the run — read-only git_status, git_diff and git_log tools
+ *    return structured JSON instead of making the model parse porcelain.
+ *
+ * Everything takes the repository root as a parameter, so it runs the same
+ * against the real project or a throwaway repo in a temp directory.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as readline from 'readline';
+import { createHash } from 'crypto';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { z } from 'zod';
+import { defineTool, type ToolSpec } from './registry.js';
+
+const execFileAsync = promisify(execFile);
+
+/** Trailer key added to every commit the agent makes */
+export const AGENT_TRAILER = 'Agent-Session';
+
+// WHY: The agent's own bookkeeping (sessions, checkpoints) is never part of a commit
+const INTERNAL_DIR = '.agent/';
+const EXCEPT_INTERNAL = ['--', '.', `:(exclude)${INTERNAL_DIR}`];
+
+// ============================================
+// PART 1: RUNNING GIT
+// ============================================
+
+/**
+ * execFile, not exec: arguments go to git as-is, so a path or ref from
+ * the model can never be interpreted by a shell.
+ */
+async function git(root: string, args: string[], signal?: AbortSignal): Promise<string> {
+  const { stdout } = await execFileAsync('git', args, {
+    cwd: root,
+    encoding: 'utf-8',
+    maxBuffer: 10 * 1024 * 1024,
+    signal
+  });
+  return stdout;
+}
+
+export async function isGitRepo(root: string): Promise<boolean> {
+  try {
+    return (await git(root, ['rev-parse', '--is-inside-work-tree'])).trim() === 'true';
+  } catch {
+    return false;
+  }
+}
+
+// ============================================
+// PART 2: STRUCTURED STATUS / DIFF / LOG
+// ============================================
+
+export type GitChange = 'modified' | 'added' | 'deleted' | 'renamed' | 'copied' | 'type-changed' | 'conflicted' | 'untracked';
+
+export interface GitFileStatus {
+  path: string;
+  /** Original path of a rename or copy */
+  from?: string;
+  /** Change in the index (what the next commit would contain) */
+  staged: GitChange | null;
+  /** Change in the working tree that isn't staged yet */
+  unstaged: GitChange | null;
+}
+
+export interface GitStatus {
+  branch: string | null;
+  upstream: string | null;
+  ahead: number;
+  behind: number;
+  clean: boolean;
+  files: GitFileStatus[];
+}
+
+const CHANGE_CODES: Record<string, GitChange> = {
+  M: 'modified', A: 'added', D: 'deleted', R: 'renamed', C: 'copied', T: 'type-changed', U: 'conflicted'
+};
+
+/**
+ * 📺 SHOW THIS: `git status --porcelain -z` turned into data.
+ *
+ *   ## main...origin/main [ahead 1]      →  branch, upstream, ahead, behind
+ *   M  src/a.ts                          →  staged: modified
+ *    M src/b.ts                          →  unstaged: modified
+ *   ?? notes.txt                         →  unstaged: untracked
+ */
+export async function gitStatus(root: string, signal?: AbortSignal): Promise<GitStatus> {
+  // WHY --untracked-files=all: list new files one by one, not as a collapsed "dir/"
+  const fields = (await git(root, ['status', '--porcelain=v1', '--branch', '--untracked-files=all', '-z'], signal)).split('\0');
+  const status: GitStatus = { branch: null, upstream: null, ahead: 0, behind: 0, clean: true, files: [] };
+
+  for (let i = 0; i < fields.length; i++) {
+    const field = fields[i];
+    if (!field) continue;
+
+    if (field.startsWith('## ')) {
+      const header = field.slice(3).replace(/^No commits yet on /, '');
+      const [, branch, upstream, tracking] = header.match(/^(.*?)(?:\.\.\.(\S+))?(?: \[(.*)\])?$/) ?? [];
+      status.branch = branch && !branch.startsWith('HEAD (no branch)') ? branch : null;
+      status.upstream = upstream ?? null;
+      status.ahead = Number(tracking?.match(/ahead (\d+)/)?.[1] ?? 0);
+      status.behind = Number(tracking?.match(/behind (\d+)/)?.[1] ?? 0);
+      continue;
+    }
+
+    const [x, y] = [field[0], field[1]];
+    const file: GitFileStatus = { path: field.slice(3), staged: null, unstaged: null };
+    if (x === '?') {
+      file.unstaged = 'untracked';
+    } else if (x === 'U' || y === 'U' || (x === 'A' && y === 'A') || (x === 'D' && y === 'D')) {
+      file.staged = file.unstaged = 'conflicted';
+    } else {
+      file.staged = CHANGE_CODES[x] ?? null;
+      file.unstaged = CHANGE_CODES[y] ?? null;
+    }
+    // WHY: With -z, a rename's original path is the NEXT field
+    if (x === 'R' || x === 'C') file.from = fields[++i];
+
+    status.files.push(file);
+  }
+
+  status.clean = status.files.length === 0;
+  return status;
+}
+
+export interface GitDiffOptions {
+  /** Diff the index against HEAD instead of the working tree against the index */
+  staged?: boolean;
+  /** Compare against this commit instead (e.g. "HEAD~1") */
+  ref?: string;
+  /** Limit to one file or directory */
+  path?: string;
+}
+
+export interface GitDiff {
+  files: Array<{ path: string; additions: number | null; deletions: number | null; binary: boolean }>;
+  patch: string;
+  truncated: boolean;
+}
+
+const MAX_PATCH_CHARS = 10000;
+
+export async function gitDiff(root: string, options: GitDiffOptions = {}, signal?: AbortSignal): Promise<GitDiff> {
+  // ⚠️ A "ref" starting with "-" would be read as an option
+  if (options.ref?.startsWith('-')) throw new Error(`Invalid ref: ${options.ref}`);
+
+  const args = ['diff', '--no-color', '--no-ext-diff'];
+  if (options.staged) args.push('--cached');
+  if (options.ref) args.push(options.ref);
+  const pathspec = options.path ? ['--', options.path] : [];
+
+  const numstat = await git(root, [...args, '--numstat', ...pathspec], signal);
+  const files = numstat.split('\n').filter(Boolean).map(line => {
+    const [additions, deletions, ...rest] = line.split('\t');
+    const binary = additions === '-';
+    return {
+      path: rest.join('\t'),
+      additions: binary ? null : Number(additions),
+      deletions: binary ? null : Number(deletions),
+      binary
+    };
+  });
+
+  const patch = await git(root, [...args, ...pathspec], signal);
+  const truncated = patch.length > MAX_PATCH_CHARS;
+  return {
+    files,
+    patch: truncated ? patch.substring(0, MAX_PATCH_CHARS) + '\n...[truncated — pass "path" to see one file]' : patch,
+    truncated
+  };
+}
+
+export interface GitCommit {
+  hash: string;
+  author: string;
+  date: string;
+  subject: string;
+  /** Set when the commit was made by the agent (the Agent-Session trailer) */
+  agentSession: string | null;
+}
+
+export async function gitLog(
+  root: string,
+  options: { limit?: number; path?: string } = {},
+  signal?: AbortSignal
+): Promise<GitCommit[]> {
+  const limit = Math.min(Math.max(options.limit ?? 10, 1), 100);
+  const format = ['%H', '%an', '%aI', '%s', `%(trailers:key=${AGENT_TRAILER},valueonly,separator=%x2C)`].join('%x1f') + '%x1e';
+  const args = ['log', `-n${limit}`, `--format=${format}`];
+  if (options.path) args.push('--', options.path);
+
+  let output: string;
+  try {
+    output = await git(root, args, signal);
+  } catch (error) {
+    // A repository without commits has no log — that's not an error
+    if (error instanceof Error && /does not have any commits/.test(error.message)) return [];
+    throw error;
+  }
+
+  return output.split('\x1e').map(record => record.trim()).filter(Boolean).map(record => {
+    const [hash, author, date, subject, trailer] = record.split('\x1f');
+    return { hash, author, date, subject, agentSession: trailer?.trim() || null };
+  });
+}
+
+// ============================================
+// PART 3: TOOLS FOR THE MODEL
+// ============================================
+
+export const gitTools: ToolSpec[] = [
+  defineTool({
+    name: "git_status",
+    description: "Show the current branch and which files are staged, modified or untracked. Returns JSON.",
+    category: "read",
+    schema: z.object({}),
+    async handler(_input, { workspace, signal }) {
+      return JSON.stringify(await gitStatus(workspace.root, signal), null, 2);
+    }
+  }),
+  defineTool({
+    name: "git_diff",
+    description: "Show changes as a unified diff plus per-file line counts. By default: unstaged changes. Returns JSON.",
+    category: "read",
+    schema: z.object({
+      staged: z.boolean().optional().describe("Show staged changes instead"),
+      ref: z.string().optional().describe("Compare the working tree against this commit (e.g. HEAD~1)"),
+      path: z.string().optional().describe("Only show this file or directory")
+    }),
+    async handler(input, { workspace, signal }) {
+      return JSON.stringify(await gitDiff(workspace.root, input, signal), null, 2);
+    }
+  }),
+  defineTool({
+    name: "git_log",
+    description: "List recent commits (hash, author, date, subject). Returns JSON.",
+    category: "read",
+    schema: z.object({
+      limit: z.number().optional().describe("Number of commits (default 10, max 100)"),
+      path: z.string().optional().describe("Only commits touching this file or directory")
+    }),
+    async handler(input, { workspace, signal }) {
+      return JSON.stringify(await gitLog(workspace.root, input, signal), null, 2);
+    }
+  })
+];
+
+export const GIT_TOOL_NAMES = new Set(gitTools.map(tool => tool.name));
+
+// ============================================
+// PART 4: BEFORE THE RUN — DIRTY TREES
+// ============================================
+
+/**
+ * What to do with uncommitted changes found before the agent starts:
+ *   stash    → `git stash push -u`, get them back later with `git stash pop`
+ *   commit   → commit them as a work-in-progress commit
+ *   continue → leave them; the agent's commit will skip those files
+ *   abort    → don't start the agent
+ */
+export type DirtyTreeAction = 'stash' | 'commit' | 'continue' | 'abort';
+export type DirtyTreePrompt = (files: GitFileStatus[]) => Promise<DirtyTreeAction>;
+
+export interface GitOptions {
+  /** Fixed answer, or how to ask. Default: ask on a terminal, otherwise continue. */
+  onDirty?: DirtyTreeAction | DirtyTreePrompt;
+  /** Commit the agent's changes after a successful task (default: true) */
+  autoCommit?: boolean;
+}
+
+export interface PrepareResult {
+  action: DirtyTreeAction | 'clean';
+  /** The uncommitted files that were found */
+  files: string[];
+  /** Files that were dirty before the run (path → content fingerprint); autoCommit leaves them alone */
+  preexisting: Record<string, string | null>;
+}
+
+/**
+ * 📺 SHOW THIS: Check the tree before the agent touches anything.
+ */
+export async function prepareWorkingTree(
+  root: string,
+  sessionId: string,
+  onDirty: DirtyTreeAction | DirtyTreePrompt = process.stdin.isTTY ? terminalDirtyPrompt : 'continue'
+): Promise<PrepareResult> {
+  const dirty = userChanges(await gitStatus(root));
+  if (dirty.length === 0) return { action: 'clean', files: [], preexisting: {} };
+
+  const action = typeof onDirty === 'function' ? await onDirty(dirty) : onDirty;
+  const paths = pathsOf(dirty);
+
+  switch (action) {
+    case 'stash':
+      await git(root, ['stash', 'push', '--include-untracked', '-m', `before agent session ${sessionId}`, ...EXCEPT_INTERNAL]);
+      return { action, files: paths, preexisting: {} };
+    case 'commit':
+      await git(root, ['add', '--all', ...EXCEPT_INTERNAL]);
+      await git(root, ['commit', '-m', `WIP: changes before agent session ${sessionId}`]);
+      return { action, files: paths, preexisting: {} };
+    case 'continue':
+      return { action, files: paths, preexisting: fingerprints(root, paths) };
+    case 'abort':
+      throw new Error(`Working tree has uncommitted changes (${paths.join(', ')}) — commit or stash them first`);
+  }
+}
+
+/**
+ * What is dirty right now, without asking — for resumed runs (every REPL
+ * task after the first). Files left dirty at startup or edited by hand
+ * between tasks are still not the agent's to commit.
+ */
+export async function snapshotDirtyTree(root: string): Promise<Record<string, string | null>> {
+  return fingerprints(root, pathsOf(userChanges(await gitStatus(root))));
+}
+
+// ============================================
+// PART 5: AFTER THE RUN — THE AGENT'S COMMIT
+// ============================================
+
+export interface AgentCommit {
+  hash: string;
+  subject: string;
+  files: string[];
+  /** Changed by the agent too, but left out because they were dirty before */
+  skipped: string[];
+}
+
+/**
+ * Commit everything the run changed, except files that were already dirty
+ * before it started. Returns null when there is nothing to commit.
+ */
+export async function commitAgentChanges(
+  root: string,
+  options: { sessionId: string; task: string; summary: string; preexisting: Record<string, string | null> }
+): Promise<AgentCommit | null> {
+  const changed = pathsOf(userChanges(await gitStatus(root)));
+  const files = changed.filter(file => !(file in options.preexisting));
+  // Only worth a warning if the agent changed them further during the run
+  const after = fingerprints(root, changed.filter(file => file in options.preexisting));
+  const skipped = Object.keys(after).filter(file => after[file] !== options.preexisting[file]);
+  if (files.length === 0) return null;
+
+  const { subject, body } = commitMessage(options.task, options.summary, files);
+  await git(root, ['add', '--all', '--', ...files]);
+  // WHY --only: commit exactly these paths, even if the user had other things staged
+  await git(root, ['commit', '--only', '-m', subject, '-m', body, '-m', `${AGENT_TRAILER}: ${options.sessionId}`, '--', ...files]);
+  const hash = (await git(root, ['rev-parse', 'HEAD'])).trim();
+
+  return { hash, subject, files, skipped };
+}
+
+/**
+ * 💡 The subject comes from the task (what was asked), the body from the
+ * agent's final answer (what was done). Both are trimmed to sane sizes.
+ */
+export function commitMessage(task: string, summary: string, files: string[]): { subject: string; body: string } {
+  const firstLine = task.trim().split('\n')[0] || 'Agent changes';
+  const subject = firstLine.length > 72 ? firstLine.substring(0, 69) + '...' : firstLine;
+
+  const trimmedSummary = summary.trim().length > 1500 ? summary.trim().substring(0, 1500) + '...' : summary.trim();
+  const body = [trimmedSummary, `Files changed:\n${files.map(file => `- ${file}`).join('\n')}`]
+    .filter(Boolean)
+    .join('\n\n');
+
+  return { subject, body };
+}
+
+/** Every path a change touches — a rename touches its old path too */
+function pathsOf(files: GitFileStatus[]): string[] {
+  return files.flatMap(file => (file.from ? [file.from, file.path] : [file.path]));
+}
+
+/** Content hash per path (null = missing), to tell whether a file changed during the run */
+function fingerprints(root: string, paths: string[]): Record<string, string | null> {
+  return Object.fromEntries(paths.map(file => {
+    const absolute = path.join(root, file);
+    return [file, fs.statSync(absolute, { throwIfNoEntry: false })?.isFile() ? createHash('sha256').update(fs.readFileSync(absolute)).digest('hex') : null];
+  }));
+}
+
+/** Changes that matter to the user — the agent's own .agent/ directory excluded */
+function userChanges(status: GitStatus): GitFileStatus[] {
+  return status.files.filter(file => !file.path.startsWith(INTERNAL_DIR) && file.path !== INTERNAL_DIR.slice(0, -1));
+}
+
+// ============================================
+// PART 6: TERMINAL PROMPT
+// ============================================
+
+/**
+ * ▶️ What the user sees:
+ *
+ *   ⚠️  3 uncommitted files (src/a.ts, src/b.ts, notes.txt)
+ *       [s]tash / [c]ommit / co[n]tinue / [a]bort:
+ */
+export const terminalDirtyPrompt: DirtyTreePrompt = async (files) => {
+  const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+  const names = files.slice(0, 5).map(file => file.path).join(', ') + (files.length > 5 ? ', ...' : '');
+  try {
+    const answer = await new Promise<string>(resolve =>
+      rl.question(`\n  ⚠️  ${files.length} uncommitted file(s) (${names})\n      [s]tash / [c]ommit / co[n]tinue / [a]bort: `, resolve)
+    );
+    const normalized = answer.trim().toLowerCase();
+    if (normalized === 's' || normalized === 'stash') return 'stash';
+    if (normalized === 'c' || normalized === 'commit') return 'commit';
+    if (normalized === 'n' || normalized === 'continue') return 'continue';
+    return 'abort';
+  } finally {
+    rl.close();
+  }
+};
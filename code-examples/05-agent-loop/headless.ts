@@ -0,0 +1,301 @@
+/**
+ * 🎓 MODULE 5: Headless Mode — The Agent in CI
+ *
+ * The demo prints emoji for a human and asks before risky actions. A CI
+ * job has no human: nobody answers a prompt, nobody reads 💭 lines, and
+ * "did it work?" has to be an exit code.
+ *
+ * THE FIX: same runAgent, different edges.
+ *
+ *   permissions   a pre-approved PROFILE; anything it doesn't allow is refused, never asked
+ *   output        one JSON object on stdout — text, diffs, commands, usage, why it stopped
+ *   exit code     0 completed · 1 error · 2 bad usage · 3 max iterations · 4 budget · 5 verification
+ *
+ * ▶️ RUN THIS:
+ *   npm run headless:05 -- --profile edit --verify "Fix the failing test" > result.json
+ *   jq -r '.files[].diff' result.json
+ */
+
+import * as fs from 'fs';
+import { fileURLToPath } from 'url';
+import { commandExitCode, runAgent, type AgentConfig } from './demo.js';
+import { BUILTIN_POLICY, loadPolicy, type PermissionPolicy } from './permissions.js';
+import { CheckpointStore, DEFAULT_CHECKPOINTS_DIR, unifiedDiff } from './checkpoints.js';
+import { jsonLinesSubscriber, type AgentEvent, type AgentEventListener } from './events.js';
+import { fallbackProviderFromEnv } from './providers.js';
+import { loadMcpConfig } from './mcp.js';
+import type { SessionStatus } from './sessions.js';
+import type { InstructionFile } from './instructions.js';
+
+// ============================================
+// PART 1: PERMISSION PROFILES
+// ============================================
+
+export type ProfileName = 'read-only' | 'edit' | 'full';
+
+/**
+ * 📺 SHOW THIS: Decided up front, in the job config — not at 3am by nobody.
+ * All three keep the built-in deny rules (sudo, .git/**, ...), and "ask"
+ * rules like `rm *` or `git push*` are refused: no one is there to ask.
+ */
+export const PERMISSION_PROFILES: Record<ProfileName, Required<PermissionPolicy>> = {
+  // Review, triage, "explain this failure"
+  'read-only': {
+    defaults: { ...BUILTIN_POLICY.defaults, write_file: 'deny', edit_file: 'deny', run_command: 'deny' },
+    categories: { read: 'allow', write: 'deny', exec: 'deny' },
+    rules: BUILTIN_POLICY.rules
+  },
+  // Fix things and run the project's own checks — nothing else in the shell.
+  // ⚠️ Not a sandbox: a test runs the project's code, and the agent can edit
+  // that code. Scripts can't be rewritten into "curl | sh" — package.json is
+  // off limits — but a test file can do anything a test file can.
+  edit: {
+    defaults: { ...BUILTIN_POLICY.defaults, write_file: 'allow', edit_file: 'allow', run_command: 'deny' },
+    categories: { read: 'allow', write: 'allow', exec: 'deny' },
+    rules: [
+      ...BUILTIN_POLICY.rules,
+      // WHY "x" and "x *", not "x*": "npx tsc*" would also allow "npx tsc-evil"
+      {
+        tool: 'run_command',
+        action: 'allow',
+        commands: ['npm test', 'npm test *', 'npm run *', 'npx tsc', 'npx tsc *', 'npx eslint', 'npx eslint *',
+          'pytest', 'pytest *', 'go test', 'go test *', 'go vet', 'go vet *', 'cargo test', 'cargo test *', 'cargo check', 'cargo check *']
+      },
+      // The scripts "npm run *" runs are the agent's to read, not to write
+      { tool: 'write_file', action: 'deny', paths: ['**/package.json'], reason: 'package.json is read-only in the edit profile' },
+      { tool: 'edit_file', action: 'deny', paths: ['**/package.json'], reason: 'package.json is read-only in the edit profile' }
+    ]
+  },
+  // A throwaway container: any command, still not the denied ones
+  full: {
+    defaults: { ...BUILTIN_POLICY.defaults, write_file: 'allow', edit_file: 'allow', run_command: 'allow' },
+    categories: { read: 'allow', write: 'allow', exec: 'allow' },
+    rules: BUILTIN_POLICY.rules
+  }
+};
+
+// ============================================
+// PART 2: THE RESULT
+// ============================================
+
+/** Why the run stopped: how the session ended, or "error" if it threw */
+export type TerminationReason = SessionStatus | 'error';
+
+export interface HeadlessResult {
+  sessionId: string | null;
+  reason: TerminationReason;
+  /** The final answer — or the partial result, or the error message */
+  text: string;
+  /** Files changed by write_file / edit_file, as unified diffs against the state before the run */
+  files: Array<{ path: string; change: 'created' | 'modified' | 'deleted'; diff: string }>;
+  /** Every run_command call; exitCode is null when it was refused or didn't finish */
+  commands: Array<{ command: string; exitCode: number | null; durationMs: number; denied?: string }>;
+  iterations: number;
+  /** AGENTS.md files the agent was given (see instructions.ts) */
+  instructions: Array<{ path: string; status: InstructionFile['status'] }>;
+  usage: {
+    inputTokens: number;
+    outputTokens: number;
+    cacheReadTokens: number;
+    cacheWriteTokens: number;
+    /** null when some call was to a model without a price */
+    costUsd: number | null;
+  };
+}
+
+export const EXIT_CODES: Record<TerminationReason, number> = {
+  completed: 0,
+  error: 1,
+  failed: 1,
+  max_iterations: 3,
+  budget_exceeded: 4,
+  verification_failed: 5
+};
+/** Bad command-line arguments */
+export const USAGE_EXIT_CODE = 2;
+
+export interface HeadlessOptions extends Omit<AgentConfig, 'verbose' | 'permissions' | 'onEvent'> {
+  /** A built-in profile, or a policy of your own (default: "edit") */
+  profile?: ProfileName | Required<PermissionPolicy>;
+  /** Where the audit log goes (default .agent/audit.jsonl) — worth keeping as a CI artifact */
+  auditLog?: string | false;
+  onEvent?: AgentEventListener;
+}
+
+/**
+ * runAgent with no prompts and no console output, collecting everything
+ * a script needs to know into one object. Never throws for a failed run —
+ * the failure is the `reason`.
+ */
+export async function runHeadless(task: string, options: HeadlessOptions = {}): Promise<HeadlessResult> {
+  const { profile = 'edit', auditLog, onEvent, ...config } = options;
+  const policy = typeof profile === 'string' ? PERMISSION_PROFILES[profile] : profile;
+
+  let sessionId: string | null = null;
+  let end: Extract<AgentEvent, { type: 'finished' }> | null = null;
+  let iterations = 0;
+  const commands: HeadlessResult['commands'] = [];
+  const pending = new Map<string, string>();
+  let instructions: HeadlessResult['instructions'] = [];
+
+  let text: string;
+  let reason: TerminationReason;
+  try {
+    text = await runAgent(task, {
+      ...config,
+      verbose: false,
+      // 💡 prompt: null — "ask" means refused, with a reason the model can read
+      permissions: { policy, prompt: null, auditLog },
+      onEvent: event => {
+        onEvent?.(event);
+        if (event.type === 'agent-start') sessionId = event.sessionId;
+        if (event.type === 'iteration-start') iterations = event.iteration;
+        if (event.type === 'finished') end = event;
+        if (event.type === 'instructions') instructions = event.files.map(file => ({ path: file.path, status: file.status }));
+        if (event.type === 'tool-call' && event.name === 'run_command') pending.set(event.id, String(event.input.command ?? ''));
+        if (event.type === 'tool-result' && pending.has(event.id)) {
+          commands.push({
+            command: pending.get(event.id)!,
+            exitCode: event.denied ? null : commandExitCode(event.result),
+            durationMs: event.durationMs,
+            ...(event.denied ? { denied: event.denied } : {})
+          });
+        }
+      }
+    });
+    reason = (end as Extract<AgentEvent, { type: 'finished' }> | null)?.status ?? 'error';
+  } catch (error) {
+    text = error instanceof Error ? error.message : String(error);
+    reason = 'error';
+  }
+
+  const finished = end as Extract<AgentEvent, { type: 'finished' }> | null;
+  const totals = finished?.usage.totals;
+  return {
+    sessionId,
+    reason,
+    text,
+    files: sessionId ? changedFiles(sessionId, config.checkpointsDir) : [],
+    commands,
+    iterations: finished?.iterations ?? iterations,
+    instructions,
+    usage: {
+      inputTokens: totals?.inputTokens ?? 0,
+      outputTokens: totals?.outputTokens ?? 0,
+      cacheReadTokens: totals?.cacheReadTokens ?? 0,
+      cacheWriteTokens: totals?.cacheWriteTokens ?? 0,
+      costUsd: totals && totals.unpricedCalls === 0 ? totals.costUsd : null
+    }
+  };
+}
+
+/**
+ * The session's checkpoints know each file's content before the agent
+ * first touched it. ⚠️ Files changed only through run_command aren't in them.
+ */
+function changedFiles(sessionId: string, dir: string | false | undefined): HeadlessResult['files'] {
+  if (dir === false) return [];
+  let store: CheckpointStore;
+  try {
+    store = CheckpointStore.open(sessionId, dir ?? DEFAULT_CHECKPOINTS_DIR);
+  } catch {
+    return []; // No checkpoints: nothing was written
+  }
+  return store.changes().map(change => ({
+    path: change.path,
+    change: change.before === null ? 'created' : change.after === null ? 'deleted' : 'modified',
+    diff: unifiedDiff(change.path, change.before, change.after)
+  }));
+}
+
+// ============================================
+// PART 3: MAIN - CLI
+// ============================================
+
+const USAGE = `Usage: headless.ts [options] "<task>"
+  --profile <read-only|edit|full|policy.json>  what is pre-approved (default: edit)
+  --max-iterations <n>   stop after n iterations
+  --max-tokens <n>       token budget
+  --max-cost <usd>       cost budget
+  --verify               run the project's checks after edits
+  --git                  git mode (a dirty tree is left alone)
+  --output <file>        also write the JSON result to a file
+  --events               JSON-lines events on stderr while it runs`;
+
+function parseArgs(argv: string[]): { task: string; output?: string; events: boolean; options: HeadlessOptions } {
+  const options: HeadlessOptions = {};
+  const budget: NonNullable<AgentConfig['budget']> = {};
+  let output: string | undefined;
+  let events = false;
+  const rest: string[] = [];
+
+  const number = (flag: string, value: string | undefined) => {
+    const parsed = Number(value);
+    if (value === undefined || !Number.isFinite(parsed) || parsed <= 0) throw new Error(`${flag} needs a positive number`);
+    return parsed;
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    switch (arg) {
+      case '--profile': {
+        const value = argv[++i];
+        if (!value) throw new Error('--profile needs a profile name or a policy file');
+        if (value in PERMISSION_PROFILES) options.profile = value as ProfileName;
+        else if (fs.existsSync(value)) options.profile = loadPolicy(value);
+        else throw new Error(`Unknown profile "${value}" — use ${Object.keys(PERMISSION_PROFILES).join(', ')} or a policy file`);
+        break;
+      }
+      case '--max-iterations': options.maxIterations = number(arg, argv[++i]); break;
+      case '--max-tokens': budget.maxTokens = number(arg, argv[++i]); break;
+      case '--max-cost': budget.maxCostUsd = number(arg, argv[++i]); break;
+      case '--verify': options.verify = true; break;
+      case '--git': options.git = { onDirty: 'continue' }; break;
+      case '--output':
+        output = argv[++i];
+        if (!output) throw new Error('--output needs a file name');
+        break;
+      case '--events': events = true; break;
+      default:
+        if (arg.startsWith('--')) throw new Error(`Unknown option ${arg}`);
+        rest.push(arg);
+    }
+  }
+
+  if (rest.length !== 1 || !rest[0].trim()) throw new Error('Give exactly one task');
+  if (Object.keys(budget).length > 0) options.budget = budget;
+  return { task: rest[0], output, events, options };
+}
+
+async function main() {
+  let parsed: ReturnType<typeof parseArgs>;
+  try {
+    parsed = parseArgs(process.argv.slice(2));
+  } catch (error) {
+    console.error(`${error instanceof Error ? error.message : String(error)}\n\n${USAGE}`);
+    process.exitCode = USAGE_EXIT_CODE;
+    return;
+  }
+
+  const { task, output, events, options } = parsed;
+  const result = await runHeadless(task, {
+    ...options,
+    mcp: loadMcpConfig(),
+    retry: { fallback: fallbackProviderFromEnv() },
+    // stdout is reserved for the result
+    onEvent: events ? jsonLinesSubscriber(line => process.stderr.write(line)) : undefined
+  });
+
+  const json = JSON.stringify(result, null, 2) + '\n';
+  process.stdout.write(json);
+  if (output) fs.writeFileSync(output, json);
+  // WHY exitCode, not exit(): exit() can cut off a large result still being written to a pipe
+  process.exitCode = EXIT_CODES[result.reason];
+}
+
+if (process.argv[1] === fileURLToPath(import.meta.url)) {
+  main().catch(error => {
+    console.error(error);
+    process.exitCode = 1;
+  });
+}
@@ -0,0 +1,192 @@
+/**
+ * 🎓 MODULE 5: Project Instructions (AGENTS.md)
+ *
+ * Every project has rules the code doesn't spell out: "use pnpm", "never
+ * touch generated/", "tests live in __tests__". The repo map can't tell
+ * the model that — a human has to write it down somewhere.
+ *
+ * THE FIX: plain Markdown files the agent finds on its own.
+ *
+ *   ~/.config/agent/AGENTS.md       you, everywhere        ← lowest precedence
+ *   /work/AGENTS.md                 parent directories
+ *   /work/monorepo/AGENTS.md          (farthest first)
+ *   /work/monorepo/app/AGENTS.md    the workspace root     ← highest precedence
+ *
+ * They go into the system prompt in that order — general first, specific
+ * last — and the prompt says later sections win when two disagree.
+ *
+ * A line that is just `@include path/to/file.md` is replaced by that
+ * file (relative to the file it's in), so long guides can live elsewhere.
+ *
+ * 💡 KEY INSIGHT: Instructions are paid for on EVERY request. They get a
+ * token budget, and when it runs out it's the most general files that
+ * are cut — the project's own file is the one that matters most.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { estimateTokens } from '../03-context/demo.js';
+
+// ============================================
+// PART 1: FINDING THE FILES
+// ============================================
+
+export interface InstructionOptions {
+  /** File names to look for in each directory (default: AGENTS.md) */
+  fileNames?: string[];
+  /** User-level directory (default: $AGENT_CONFIG_DIR, else ~/.config/agent) */
+  userDir?: string;
+  /** Token budget for all instructions together (default 4,000) */
+  maxTokens?: number;
+}
+
+export type InstructionScope = 'user' | 'parent' | 'project';
+
+export interface InstructionFile {
+  path: string;
+  scope: InstructionScope;
+  /** Files pulled in with @include, in the order they were included */
+  includes: string[];
+  /** Estimated tokens that made it into the prompt */
+  tokens: number;
+  status: 'loaded' | 'truncated' | 'skipped';
+  /** @include lines that couldn't be resolved */
+  warnings: string[];
+}
+
+export const DEFAULT_INSTRUCTION_FILES = ['AGENTS.md'];
+const MAX_INCLUDE_DEPTH = 5;
+
+function defaultUserDir(): string {
+  return process.env.AGENT_CONFIG_DIR ?? path.join(process.env.XDG_CONFIG_HOME ?? path.join(os.homedir(), '.config'), 'agent');
+}
+
+/**
+ * Candidate files, lowest precedence first: the user's, then every
+ * directory from the filesystem root down to the workspace.
+ */
+export function findInstructionFiles(
+  root: string,
+  options: InstructionOptions = {}
+): Array<{ path: string; scope: InstructionScope }> {
+  const fileNames = options.fileNames ?? DEFAULT_INSTRUCTION_FILES;
+  const userDir = path.resolve(options.userDir ?? defaultUserDir());
+  const found: Array<{ path: string; scope: InstructionScope }> = [];
+  const add = (dir: string, scope: InstructionScope) => {
+    for (const name of fileNames) {
+      const file = path.join(dir, name);
+      if (fs.existsSync(file) && fs.statSync(file).isFile()) found.push({ path: file, scope });
+    }
+  };
+
+  add(userDir, 'user');
+  const dirs: string[] = [];
+  for (let dir = path.resolve(root); ; dir = path.dirname(dir)) {
+    dirs.unshift(dir);
+    if (path.dirname(dir) === dir) break;
+  }
+  for (const dir of dirs) {
+    // WHY: the user dir may sit inside the tree we walk (~/.config/agent under ~)
+    if (dir === userDir) continue;
+    add(dir, dir === path.resolve(root) ? 'project' : 'parent');
+  }
+  return found;
+}
+
+// ============================================
+// PART 2: @include
+// ============================================
+
+/**
+ * 🔧 HOW IT WORKS: Replace each `@include <path>` line with the file's
+ * content, recursively. A file already on the include chain (a cycle) or
+ * one level too deep is left out with a warning, never an error.
+ */
+export function expandIncludes(
+  file: string,
+  seen: string[] = [],
+  result: { includes: string[]; warnings: string[] } = { includes: [], warnings: [] }
+): { text: string; includes: string[]; warnings: string[] } {
+  const content = fs.readFileSync(file, 'utf-8');
+  const chain = [...seen, path.resolve(file)];
+
+  const text = content.split('\n').map(line => {
+    const match = /^\s*@include\s+(\S+)\s*$/.exec(line);
+    if (!match) return line;
+
+    const target = path.resolve(path.dirname(file), match[1].replace(/^~(?=\/)/, os.homedir()));
+    if (chain.includes(target)) {
+      result.warnings.push(`${file}: @include ${match[1]} — include cycle, skipped`);
+      return '';
+    }
+    if (chain.length > MAX_INCLUDE_DEPTH) {
+      result.warnings.push(`${file}: @include ${match[1]} — more than ${MAX_INCLUDE_DEPTH} levels deep, skipped`);
+      return '';
+    }
+    if (!fs.existsSync(target) || !fs.statSync(target).isFile()) {
+      result.warnings.push(`${file}: @include ${match[1]} — file not found`);
+      return '';
+    }
+    result.includes.push(target);
+    return expandIncludes(target, chain, result).text;
+  }).join('\n');
+
+  return { text: text.trim(), ...result };
+}
+
+// ============================================
+// PART 3: THE PROMPT SECTION
+// ============================================
+
+export interface LoadedInstructions {
+  /** Ready to append to the system prompt; empty when there are no files */
+  prompt: string;
+  files: InstructionFile[];
+}
+
+/**
+ * 📺 SHOW THIS: Budget from the most specific file outward. The project
+ * file gets first claim; a parent file that doesn't fit is truncated,
+ * anything after that is skipped — and all of it is reported.
+ */
+export function loadInstructions(root: string, options: InstructionOptions = {}): LoadedInstructions {
+  const maxTokens = options.maxTokens ?? 4000;
+  const candidates = findInstructionFiles(root, options).map(candidate => {
+    const expanded = expandIncludes(candidate.path);
+    return { ...candidate, ...expanded };
+  }).filter(candidate => candidate.text.length > 0);
+
+  let remaining = maxTokens;
+  const sections: string[] = [];
+  const files: InstructionFile[] = [];
+  for (const candidate of [...candidates].reverse()) {
+    const report = { path: candidate.path, scope: candidate.scope, includes: candidate.includes, warnings: candidate.warnings };
+    const tokens = estimateTokens(candidate.text);
+    if (tokens <= remaining) {
+      sections.unshift(section(candidate.path, candidate.text));
+      files.unshift({ ...report, tokens, status: 'loaded' });
+      remaining -= tokens;
+    } else if (remaining >= 200) {
+      // ~4 chars per token, the same estimate as estimateTokens
+      const text = `${candidate.text.slice(0, remaining * 4)}\n...[truncated: over the instruction budget]`;
+      sections.unshift(section(candidate.path, text));
+      files.unshift({ ...report, tokens: remaining, status: 'truncated' });
+      remaining = 0;
+    } else {
+      files.unshift({ ...report, tokens: 0, status: 'skipped' });
+    }
+  }
+
+  if (sections.length === 0) return { prompt: '', files };
+  const prompt = `## Project Instructions
+Written by the people you work for. Follow them. They go from general to specific:
+when two sections disagree, the later one wins.
+
+${sections.join('\n\n')}`;
+  return { prompt, files };
+}
+
+function section(file: string, text: string): string {
+  return `### ${file.startsWith(os.homedir()) ? `~${file.slice(os.homedir().length)}` : file}\n${text}`;
+}
@@ -0,0 +1,90 @@
+/**
+ * 🎓 MODULE 5: A Minimal MCP Server
+ *
+ * The other side of mcp.ts, small enough to read in one go: JSON-RPC
+ * requests come in on stdin, one per line, and responses go out on
+ * stdout. Handy for trying the client without installing anything.
+ *
+ * ▶️ RUN THIS: put this in .agent/mcp.json, then run the agent as usual
+ *
+ *   { "mcpServers": { "echo": { "command": "npx", "args": ["tsx", "05-agent-loop/mcp-echo-server.ts"] } } }
+ *
+ * The agent gets mcp__echo__echo, mcp__echo__add — and two tools that
+ * misbehave on purpose, to watch the client cope: mcp__echo__crash and
+ * mcp__echo__sleep.
+ */
+
+import * as readline from 'readline';
+
+const tools = [
+  {
+    name: 'echo',
+    description: 'Return the text you send',
+    inputSchema: { type: 'object', properties: { text: { type: 'string' } }, required: ['text'] },
+    annotations: { readOnlyHint: true }
+  },
+  {
+    name: 'add',
+    description: 'Add two numbers',
+    inputSchema: { type: 'object', properties: { a: { type: 'number' }, b: { type: 'number' } }, required: ['a', 'b'] },
+    annotations: { readOnlyHint: true }
+  },
+  {
+    name: 'crash',
+    description: 'Exit the server process (to test crash handling)',
+    inputSchema: { type: 'object', properties: {} }
+  },
+  {
+    name: 'sleep',
+    description: 'Wait before answering (to test timeouts)',
+    inputSchema: { type: 'object', properties: { ms: { type: 'number' } }, required: ['ms'] }
+  }
+];
+
+function send(message: Record<string, unknown>): void {
+  process.stdout.write(JSON.stringify({ jsonrpc: '2.0', ...message }) + '\n');
+}
+
+const text = (value: string, isError = false) => ({ content: [{ type: 'text', text: value }], isError });
+
+async function callTool(name: string, args: Record<string, unknown>) {
+  switch (name) {
+    case 'echo':
+      return text(String(args.text));
+    case 'add':
+      return typeof args.a === 'number' && typeof args.b === 'number'
+        ? text(String(args.a + args.b))
+        : text('a and b must be numbers', true);
+    case 'crash':
+      console.error('crashing on purpose');
+      process.exit(1);
+    case 'sleep':
+      await new Promise(resolve => setTimeout(resolve, Number(args.ms)));
+      return text(`slept ${args.ms}ms`);
+    default:
+      return null;
+  }
+}
+
+readline.createInterface({ input: process.stdin }).on('line', async line => {
+  const { id, method, params } = JSON.parse(line) as { id?: number; method: string; params?: Record<string, unknown> };
+  // Notifications (no id) need no answer
+  if (id === undefined) return;
+
+  switch (method) {
+    case 'initialize':
+      send({ id, result: { protocolVersion: '2024-11-05', capabilities: { tools: {} }, serverInfo: { name: 'echo', version: '1.0.0' } } });
+      break;
+    case 'tools/list':
+      send({ id, result: { tools } });
+      break;
+    case 'tools/call': {
+      const result = await callTool(params?.name as string, (params?.arguments ?? {}) as Record<string, unknown>);
+      if (result) send({ id, result });
+      else send({ id, error: { code: -32602, message: `Unknown tool: ${params?.name}` } });
+      break;
+    }
+    default:
+      send({ id, error: { code: -32601, message: `Method not found: ${method}` } });
+  }
+});
@@ -0,0 +1,357 @@
+/**
+ * 🎓 MODULE 5: MCP — Tools From Other Processes
+ *
+ * Our tools are a closed list: the specs in demo.ts's `tools`, compiled
+ * into the agent. A database tool, a browser, a ticket tracker — each
+ * would mean editing the agent.
+ *
+ * The Model Context Protocol turns that around. A tool SERVER is any
+ * program that speaks JSON-RPC on stdin/stdout:
+ *
+ *   agent ──spawn──► server process
+ *     → initialize            ← name, capabilities
+ *     → tools/list            ← [{ name, description, inputSchema }]
+ *     → tools/call {name,args} ← { content: [{ type: "text", text }] }
+ *
+ * Its tools join ours in the registry as `mcp__<server>__<tool>`, with
+ * handlers that forward each call to the right process.
+ *
+ * 💡 KEY INSIGHT: A server is someone else's code in another process. It
+ * can crash, hang or print garbage — and none of that may take the agent
+ * down. Every failure becomes an "Error: ..." tool result instead.
+ *
+ * Configure servers in .agent/mcp.json (the format other MCP clients use):
+ *
+ *   { "mcpServers": { "echo": { "command": "npx", "args": ["tsx", "05-agent-loop/mcp-echo-server.ts"] } } }
+ */
+
+import Anthropic from '@anthropic-ai/sdk';
+import * as fs from 'fs';
+import * as path from 'path';
+import { spawn, type ChildProcessWithoutNullStreams } from 'child_process';
+import { z } from 'zod';
+import type { ToolSpec } from './registry.js';
+
+export const DEFAULT_MCP_CONFIG = path.join('.agent', 'mcp.json');
+const PROTOCOL_VERSION = '2024-11-05';
+
+export interface McpServerConfig {
+  command: string;
+  args?: string[];
+  env?: Record<string, string>;
+  cwd?: string;
+  /** Per request, including tool calls (default 60s) */
+  timeoutMs?: number;
+  /**
+   * Believe the server when it marks a tool read-only (default false).
+   * The hint is the server's own claim — until you trust it, every tool is "exec".
+   */
+  trustReadOnlyHints?: boolean;
+}
+
+export function loadMcpConfig(file: string = DEFAULT_MCP_CONFIG): Record<string, McpServerConfig> {
+  if (!fs.existsSync(file)) return {};
+  const parsed = JSON.parse(fs.readFileSync(file, 'utf-8')) as { mcpServers?: Record<string, McpServerConfig> };
+  return parsed.mcpServers ?? {};
+}
+
+export class McpError extends Error {
+  constructor(readonly server: string, message: string) {
+    super(`MCP server "${server}": ${message}`);
+    this.name = 'McpError';
+  }
+}
+
+/** A tool as the server describes it */
+export interface McpTool {
+  name: string;
+  description?: string;
+  inputSchema: Anthropic.Tool.InputSchema;
+  annotations?: { readOnlyHint?: boolean };
+}
+
+// ============================================
+// PART 1: ONE SERVER — JSON-RPC OVER STDIO
+// ============================================
+
+interface Pending {
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+/**
+ * 📺 SHOW THIS: The whole transport. One JSON object per line each way;
+ * requests carry an id, and the response with the same id settles the
+ * promise. If the process dies, every open request fails at once.
+ */
+export class McpClient {
+  private process: ChildProcessWithoutNullStreams | null = null;
+  private readonly pending = new Map<number, Pending>();
+  private nextId = 1;
+  private buffer = '';
+  /** The last lines the server wrote to stderr — usually why it crashed */
+  private stderr: string[] = [];
+
+  constructor(
+    readonly name: string,
+    private readonly config: McpServerConfig,
+    /** Called when the process exits on its own */
+    private readonly onExit?: (detail: string) => void
+  ) {}
+
+  get running(): boolean {
+    return this.process !== null;
+  }
+
+  async start(): Promise<void> {
+    const child = spawn(this.config.command, this.config.args ?? [], {
+      cwd: this.config.cwd,
+      env: { ...process.env, ...this.config.env },
+      stdio: ['pipe', 'pipe', 'pipe']
+    });
+    this.process = child;
+    this.stderr = [];
+    this.buffer = '';
+
+    child.stdout.setEncoding('utf-8');
+    child.stdout.on('data', (chunk: string) => this.receive(chunk));
+    child.stderr.setEncoding('utf-8');
+    child.stderr.on('data', (chunk: string) => {
+      this.stderr.push(...chunk.split('\n').filter(Boolean));
+      this.stderr = this.stderr.slice(-10);
+    });
+    // ⚠️ A dead server makes writes fail with EPIPE — handled by 'exit', not a crash of ours
+    child.stdin.on('error', () => {});
+    child.on('error', error => {
+      if (this.process === child) this.process = null;
+      this.failAll(`could not start "${this.config.command}": ${error.message}`);
+    });
+    child.on('exit', (code, signal) => {
+      // Stopped on purpose: stop() already cleaned up
+      if (this.process !== child) return;
+      this.process = null;
+      const detail = `exited (${signal ?? `code ${code}`})${this.stderr.length ? `: ${this.stderr.join(' | ')}` : ''}`;
+      this.failAll(detail);
+      this.onExit?.(detail);
+    });
+
+    await this.request('initialize', {
+      protocolVersion: PROTOCOL_VERSION,
+      capabilities: {},
+      clientInfo: { name: 'ai-coding-agent-course', version: '1.0.0' }
+    });
+    this.notify('notifications/initialized');
+  }
+
+  /** tools/list, following pagination cursors */
+  async listTools(): Promise<McpTool[]> {
+    const tools: McpTool[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await this.request('tools/list', cursor ? { cursor } : {}) as { tools: McpTool[]; nextCursor?: string };
+      tools.push(...page.tools);
+      cursor = page.nextCursor;
+    } while (cursor);
+    return tools;
+  }
+
+  async callTool(name: string, args: Record<string, unknown>, signal?: AbortSignal): Promise<string> {
+    const result = await this.request('tools/call', { name, arguments: args }, signal) as {
+      content?: Array<{ type: string; text?: string; mimeType?: string; resource?: { uri: string; text?: string } }>;
+      isError?: boolean;
+    };
+    const text = (result.content ?? []).map(block => {
+      if (block.type === 'text') return block.text ?? '';
+      if (block.type === 'resource') return block.resource?.text ?? `[resource ${block.resource?.uri}]`;
+      return `[${block.type}${block.mimeType ? ` ${block.mimeType}` : ''} omitted]`;
+    }).join('\n');
+    // 💡 Tool-level failures are content with isError — pass them on like our own errors
+    return result.isError ? `Error: ${text}` : text || '(no output)';
+  }
+
+  stop(): void {
+    const child = this.process;
+    this.process = null;
+    this.failAll('stopped');
+    child?.kill();
+  }
+
+  private request(method: string, params: Record<string, unknown>, signal?: AbortSignal): Promise<unknown> {
+    if (!this.process) return Promise.reject(new McpError(this.name, 'not running'));
+    const id = this.nextId++;
+    const timeoutMs = this.config.timeoutMs ?? 60_000;
+
+    return new Promise((resolve, reject) => {
+      const settle = () => {
+        clearTimeout(this.pending.get(id)?.timer);
+        this.pending.delete(id);
+        signal?.removeEventListener('abort', onAbort);
+      };
+      // A hung request is cancelled on the server too, so it can stop working on it
+      const cancel = (reason: string) => {
+        settle();
+        this.notify('notifications/cancelled', { requestId: id, reason });
+      };
+      const onAbort = () => {
+        cancel('aborted');
+        reject(signal!.reason instanceof Error ? signal!.reason : new McpError(this.name, 'aborted'));
+      };
+      const timer = setTimeout(() => {
+        cancel('timeout');
+        reject(new McpError(this.name, `${method} timed out after ${Math.round(timeoutMs / 1000)}s`));
+      }, timeoutMs);
+
+      this.pending.set(id, {
+        resolve: result => { settle(); resolve(result); },
+        reject: error => { settle(); reject(error); },
+        timer
+      });
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.send({ jsonrpc: '2.0', id, method, params });
+    });
+  }
+
+  private notify(method: string, params?: Record<string, unknown>): void {
+    this.send({ jsonrpc: '2.0', method, ...(params ? { params } : {}) });
+  }
+
+  private send(message: Record<string, unknown>): void {
+    this.process?.stdin.write(JSON.stringify(message) + '\n');
+  }
+
+  /** Split the stream into lines; ignore anything that isn't a response we're waiting for */
+  private receive(chunk: string): void {
+    this.buffer += chunk;
+    let newline: number;
+    while ((newline = this.buffer.indexOf('\n')) !== -1) {
+      const line = this.buffer.slice(0, newline).trim();
+      this.buffer = this.buffer.slice(newline + 1);
+      if (!line) continue;
+
+      let message: { id?: number; result?: unknown; error?: { code: number; message: string } };
+      try {
+        message = JSON.parse(line);
+      } catch {
+        // WHY: servers that log to stdout by mistake shouldn't break the protocol
+        continue;
+      }
+      const pending = message.id === undefined ? undefined : this.pending.get(message.id);
+      if (!pending) continue;
+      if (message.error) pending.reject(new McpError(this.name, `${message.error.message} (code ${message.error.code})`));
+      else pending.resolve(message.result);
+    }
+  }
+
+  private failAll(detail: string): void {
+    for (const pending of [...this.pending.values()]) pending.reject(new McpError(this.name, detail));
+  }
+}
+
+// ============================================
+// PART 2: ALL SERVERS — NAMESPACING AND ROUTING
+// ============================================
+
+export type McpServerStatus =
+  | { name: string; status: 'started'; tools: number }
+  | { name: string; status: 'failed' | 'exited'; error: string };
+
+const PREFIX = 'mcp__';
+// How often a crashed server is started again before we give up on it
+const MAX_RESTARTS = 2;
+
+/**
+ * Tool names the API accepts: letters, digits, _ and -, at most 64 chars.
+ * "github" + "create-issue" → "mcp__github__create-issue"
+ */
+function qualifiedName(server: string, tool: string): string {
+  return `${PREFIX}${server}__${tool}`.replace(/[^a-zA-Z0-9_-]/g, '_').slice(0, 64);
+}
+
+export class McpHub {
+  private readonly clients = new Map<string, McpClient>();
+  private readonly restarts = new Map<string, number>();
+  /** Qualified tool name → which server, the name the server knows it by, and whether it counts as read-only */
+  private readonly routes = new Map<string, { server: string; tool: McpTool; readOnly: boolean }>();
+
+  private constructor(private readonly onStatus: (status: McpServerStatus) => void) {}
+
+  /**
+   * Start every server side by side. A server that fails to start is
+   * reported and left out — the agent runs with the tools it has.
+   */
+  static async start(
+    servers: Record<string, McpServerConfig>,
+    onStatus: (status: McpServerStatus) => void = () => {}
+  ): Promise<McpHub> {
+    const hub = new McpHub(onStatus);
+    await Promise.all(Object.entries(servers).map(async ([name, config]) => {
+      const client = new McpClient(name, config, detail => onStatus({ name, status: 'exited', error: detail }));
+      try {
+        await client.start();
+        const tools = await client.listTools();
+        hub.clients.set(name, client);
+        for (const tool of tools) {
+          const readOnly = config.trustReadOnlyHints === true && tool.annotations?.readOnlyHint === true;
+          hub.routes.set(qualifiedName(name, tool.name), { server: name, tool, readOnly });
+        }
+        onStatus({ name, status: 'started', tools: tools.length });
+      } catch (error) {
+        client.stop();
+        onStatus({ name, status: 'failed', error: error instanceof Error ? error.message : String(error) });
+      }
+    }));
+    return hub;
+  }
+
+  /**
+   * As registry specs, ready to merge into the tool list. The server
+   * validates the arguments itself, so the schema only checks "an object";
+   * the model sees the server's own JSON Schema.
+   *
+   * ⚠️ A "read" tool runs side by side, read-only sub-agents get it, and
+   * the default policy allows it — so a readOnlyHint only counts for a
+   * server whose config says `trustReadOnlyHints`.
+   */
+  tools(): ToolSpec[] {
+    return [...this.routes].map(([name, { server, tool, readOnly }]) => ({
+      name,
+      description: `[${server}] ${tool.description ?? tool.name}`,
+      category: readOnly ? 'read' : 'exec',
+      schema: z.record(z.unknown()),
+      inputSchema: { ...tool.inputSchema, type: 'object' },
+      handler: (input: Record<string, unknown>, { signal }) => this.call(name, input, signal)
+    }));
+  }
+
+  async call(name: string, input: Record<string, unknown>, signal?: AbortSignal): Promise<string> {
+    const route = this.routes.get(name);
+    if (!route) return `Error: unknown MCP tool ${name}`;
+    const client = this.clients.get(route.server)!;
+
+    if (!client.running) {
+      const restarts = this.restarts.get(route.server) ?? 0;
+      if (restarts >= MAX_RESTARTS) return `Error: MCP server "${route.server}" keeps crashing — its tools are unavailable`;
+      this.restarts.set(route.server, restarts + 1);
+      try {
+        await client.start();
+      } catch (error) {
+        return `Error: ${error instanceof Error ? error.message : String(error)}`;
+      }
+    }
+
+    try {
+      const result = await client.callTool(route.tool.name, input, signal);
+      // Working again: "keeps crashing" means crashes in a row, not over the whole session
+      this.restarts.delete(route.server);
+      return result;
+    } catch (error) {
+      signal?.throwIfAborted();
+      return `Error: ${error instanceof Error ? error.message : String(error)}`;
+    }
+  }
+
+  close(): void {
+    for (const client of this.clients.values()) client.stop();
+  }
+}
@@ -0,0 +1,384 @@
+/**
+ * 🎓 MODULE 5: Permissions — Asking Before Acting
+ *
+ * An agent that can write files and run shell commands needs a gate
+ * between "the model asked for it" and "it happened".
+ *
+ * A substring blocklist ('rm -rf', 'sudo', ...) is NOT that gate:
+ *   rm -r -f /      ← not "rm -rf", sails through
+ *   echo ok; sudo x ← only the first command gets looked at
+ *
+ * THE FIX: a policy with explicit rules, evaluated per tool call.
+ *
+ *   {
+ *     "defaults": { "write_file": "ask", "run_command": "ask" },
+ *     "rules": [
+ *       { "tool": "write_file",  "action": "allow", "paths": ["src/**"] },
+ *       { "tool": "write_file",  "action": "deny",  "paths": [".env", "secrets/**"] },
+ *       { "tool": "run_command", "action": "allow", "commands": ["npm test", "npm run *"] }
+ *     ]
+ *   }
+ *
+ * Evaluation order:
+ *   1. deny rules win over everything
+ *   2. "always allow" answers given earlier in this session
+ *   3. ask rules, then allow rules, then the tool's default
+ *      (or its category's — read / write / exec, see registry.ts)
+ *
+ * 💡 KEY INSIGHT: Shell commands are split into segments (`;`, `&&`, `||`, `|`,
+ * newlines) and EVERY segment must pass. Commands with `$(...)`, `<(...)`,
+ * backticks or `>` are never auto-allowed — we can't know what they'll run
+ * or overwrite.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as readline from 'readline';
+import type { ToolCategory } from './registry.js';
+
+// ============================================
+// PART 1: POLICY FORMAT
+// ============================================
+
+export type PermissionAction = 'allow' | 'deny' | 'ask';
+
+export interface PermissionRule {
+  /** Tool name, or "*" for every tool */
+  tool: string;
+  action: PermissionAction;
+  /** Globs for path-based tools (relative to the project root) */
+  paths?: string[];
+  /** Patterns for run_command; "*" matches any characters */
+  commands?: string[];
+  /** Shown to the model when this rule denies a call */
+  reason?: string;
+}
+
+export interface PermissionPolicy {
+  defaults?: Record<string, PermissionAction>;
+  /** For tools without a default of their own, e.g. MCP tools (see registry.ts) */
+  categories?: Partial<Record<ToolCategory, PermissionAction>>;
+  rules?: PermissionRule[];
+}
+
+export const DEFAULT_POLICY_FILE = path.join('.agent', 'permissions.json');
+export const DEFAULT_AUDIT_LOG = path.join('.agent', 'audit.jsonl');
+
+/**
+ * 📺 SHOW THIS: Safe defaults — reading is free, changing things needs a yes.
+ * Project policy files are layered ON TOP of these.
+ */
+export const BUILTIN_POLICY: Required<PermissionPolicy> = {
+  defaults: {
+    read_file: 'allow',
+    list_directory: 'allow',
+    search_files: 'allow',
+    git_status: 'allow',
+    git_diff: 'allow',
+    git_log: 'allow',
+    update_plan: 'allow',
+    // The sub-agent's own tool calls still go through this policy
+    delegate_task: 'allow',
+    write_file: 'ask',
+    edit_file: 'ask',
+    run_command: 'ask',
+    // Stopping something the agent started itself
+    kill_process: 'allow'
+  },
+  categories: {
+    read: 'allow',
+    write: 'ask',
+    exec: 'ask'
+  },
+  rules: [
+    {
+      tool: 'run_command',
+      action: 'deny',
+      commands: ['sudo *', 'su *', 'mkfs*', 'dd *', 'shutdown*', 'reboot*', 'chmod -R 777 /*'],
+      reason: 'privileged or destructive system command'
+    },
+    // WHY ask, not a pattern like 'rm -rf': flags can be split or reordered (rm -r -f)
+    { tool: 'run_command', action: 'ask', commands: ['rm *', 'git push*', 'git reset --hard*'] },
+    { tool: 'write_file', action: 'deny', paths: ['.git/**'], reason: 'git internals are off limits' },
+    { tool: 'edit_file', action: 'deny', paths: ['.git/**'], reason: 'git internals are off limits' }
+  ]
+};
+
+export function loadPolicy(filePath: string = DEFAULT_POLICY_FILE): Required<PermissionPolicy> {
+  if (!fs.existsSync(filePath)) return BUILTIN_POLICY;
+
+  const project = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as PermissionPolicy;
+  return {
+    defaults: { ...BUILTIN_POLICY.defaults, ...project.defaults },
+    categories: { ...BUILTIN_POLICY.categories, ...project.categories },
+    rules: [...BUILTIN_POLICY.rules, ...(project.rules ?? [])]
+  };
+}
+
+// ============================================
+// PART 2: MATCHING
+// ============================================
+
+/**
+ * Minimal glob → RegExp:  ** = anything, * = anything but "/", ? = one char
+ */
+export function globToRegExp(glob: string): RegExp {
+  let pattern = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      pattern += '.*';
+      i++;
+      if (glob[i + 1] === '/') i++; // "**/" also matches zero directories
+    } else if (char === '*') {
+      pattern += '[^/]*';
+    } else if (char === '?') {
+      pattern += '[^/]';
+    } else {
+      pattern += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${pattern}$`);
+}
+
+function matchesCommand(segment: string, pattern: string): boolean {
+  const regex = pattern
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${regex}$`).test(segment);
+}
+
+/**
+ * Split a shell command into the simple commands it runs.
+ * Quotes are respected; whitespace is normalized so `rm  -r` == `rm -r`.
+ */
+export function splitCommand(command: string): { segments: string[]; opaque: boolean } {
+  const segments: string[] = [];
+  let current: string[] = [];
+  let word = '';
+  let quote: '"' | "'" | null = null;
+  // Substitutions (command and process) and redirects do things no pattern can see
+  let opaque = /\$\(|`|[<>]\(/.test(command);
+
+  const endWord = () => {
+    if (word) current.push(word);
+    word = '';
+  };
+  const endSegment = () => {
+    endWord();
+    if (current.length > 0) segments.push(current.join(' '));
+    current = [];
+  };
+
+  for (let i = 0; i < command.length; i++) {
+    const char = command[i];
+    if (quote) {
+      if (char === quote) quote = null;
+      else word += char;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '\n') {
+      // ⚠️ Before the whitespace test: a newline ends the command, like ;
+      endSegment();
+    } else if (/\s/.test(char)) {
+      endWord();
+    } else if (char === '>' || (char === '&' && command[i - 1] === '>')) {
+      if (char === '>') {
+        const dup = command[i + 1] === '&';
+        const target = command.slice(i + (dup ? 2 : 1)).trimStart();
+        // 2>&1 and >&2 only copy a descriptor, > /dev/null discards — anything else (>&file too) writes a file
+        if (!(dup ? /^[0-9-]/.test(target) : target.startsWith('/dev/null'))) opaque = true;
+      }
+      word += char;
+    } else if (char === ';' || char === '|' || char === '&') {
+      endSegment();
+      if (command[i + 1] === char) i++; // && and ||
+    } else {
+      word += char;
+    }
+  }
+  endSegment();
+
+  // An unterminated quote means we didn't parse it the way the shell will
+  if (quote) opaque = true;
+  return { segments, opaque };
+}
+
+/** Tools that hand a command to the shell too — run_command's rules cover them as well */
+const SHELL_TOOLS: Record<string, string> = { start_process: 'run_command' };
+
+const STRENGTH: Record<PermissionAction, number> = { allow: 0, ask: 1, deny: 2 };
+
+function strongest(rules: PermissionRule[]): PermissionRule | undefined {
+  return [...rules].sort((a, b) => STRENGTH[b.action] - STRENGTH[a.action])[0];
+}
+
+// ============================================
+// PART 3: THE PERMISSION MANAGER
+// ============================================
+
+export interface PermissionDecision {
+  allowed: boolean;
+  /** Where the decision came from — recorded in the audit log */
+  source: 'rule' | 'default' | 'user' | 'session' | 'no-terminal';
+  /** Explanation returned to the model when the call is refused */
+  reason?: string;
+}
+
+export type PromptAnswer = 'yes' | 'always' | 'no';
+export type PermissionPrompt = (question: string) => Promise<PromptAnswer>;
+
+export interface PermissionOptions {
+  /** Default: the built-in policy plus the root's .agent/permissions.json */
+  policy?: Required<PermissionPolicy>;
+  /** How to ask the user; defaults to a y/a/n question on the terminal. `null` never asks. */
+  prompt?: PermissionPrompt | null;
+  /** JSONL audit log path, or false to disable (default: .agent/audit.jsonl in the root) */
+  auditLog?: string | false;
+  sessionId?: string;
+  /** Directory that path globs are relative to (default: cwd) */
+  root?: string;
+  /** Where "always" answers are kept (default: a new set) — share one to make them outlast a run */
+  alwaysAllowed?: Set<string>;
+}
+
+/**
+ * Decides whether a single tool call may run.
+ * One instance per run; "always allow" answers last as long as their set —
+ * this run's own, unless the caller (the REPL) hands one in for the whole conversation.
+ */
+export class PermissionManager {
+  private readonly policy: Required<PermissionPolicy>;
+  private readonly prompt: PermissionPrompt | null;
+  private readonly auditLog: string | false;
+  private readonly sessionId?: string;
+  private readonly root: string;
+  private readonly alwaysAllowed: Set<string>;
+
+  constructor(options: PermissionOptions = {}) {
+    this.root = path.resolve(options.root ?? '.');
+    // WHY the root, not the cwd: the agent may be started from anywhere, the project's policy lives in the project
+    this.policy = options.policy ?? loadPolicy(path.join(this.root, DEFAULT_POLICY_FILE));
+    this.prompt = options.prompt !== undefined ? options.prompt : process.stdin.isTTY ? terminalPrompt : null;
+    this.auditLog = options.auditLog ?? path.join(this.root, DEFAULT_AUDIT_LOG);
+    this.sessionId = options.sessionId;
+    this.alwaysAllowed = options.alwaysAllowed ?? new Set();
+  }
+
+  /** What a tool call acts on: a path relative to the root, a command, or nothing */
+  targetOf(input: Record<string, unknown>): string {
+    if (typeof input.command === 'string') return input.command;
+    if (typeof input.path === 'string') return path.relative(this.root, path.resolve(this.root, input.path)) || '.';
+    return '';
+  }
+
+  /**
+   * Evaluate the policy only — no prompting, no audit.
+   * A tool with no default of its own falls back to its category's.
+   */
+  evaluate(
+    tool: string,
+    input: Record<string, unknown>,
+    category?: ToolCategory
+  ): { action: PermissionAction; rule?: PermissionRule } {
+    // WHY the alias: otherwise start_process("sudo ...") would walk around the run_command deny rules
+    const rules = this.policy.rules.filter(r => r.tool === tool || r.tool === '*' || r.tool === SHELL_TOOLS[tool]);
+    const fallback = this.policy.defaults[tool] ?? (category && this.policy.categories[category]) ?? 'ask';
+
+    if (typeof input.command === 'string') {
+      const { segments, opaque } = splitCommand(input.command);
+      let result: { action: PermissionAction; rule?: PermissionRule } = { action: 'allow' };
+      for (const segment of segments) {
+        const match = strongest(rules.filter(r =>
+          r.commands ? r.commands.some(p => matchesCommand(segment, p)) : !r.paths
+        ));
+        const action = match?.action ?? fallback;
+        if (STRENGTH[action] > STRENGTH[result.action]) result = { action, rule: match };
+      }
+      if (opaque && result.action === 'allow') result = { action: 'ask' };
+      if (segments.length === 0) result = { action: fallback };
+      return result;
+    }
+
+    const target = this.targetOf(input);
+    const match = strongest(rules.filter(r =>
+      r.paths ? r.paths.some(glob => globToRegExp(glob).test(target)) : !r.commands
+    ));
+    return { action: match?.action ?? fallback, rule: match };
+  }
+
+  /**
+   * 🔧 HOW IT WORKS: Policy first, then (maybe) the human
+   *
+   * deny  → refuse, tell the model why
+   * allow → run
+   * ask   → already "always allowed"? run. Otherwise prompt y / a / n.
+   *         No terminal to ask on → refuse (never silently allow).
+   */
+  async check(tool: string, input: Record<string, unknown>, category?: ToolCategory): Promise<PermissionDecision> {
+    const target = this.targetOf(input);
+    const key = `${tool}:${target}`;
+    const { action, rule } = this.evaluate(tool, input, category);
+    const source = rule ? 'rule' : 'default';
+    let decision: PermissionDecision;
+
+    if (action === 'deny') {
+      decision = { allowed: false, source, reason: `denied by policy${rule?.reason ? `: ${rule.reason}` : ''}` };
+    } else if (action === 'allow') {
+      decision = { allowed: true, source };
+    } else if (this.alwaysAllowed.has(key)) {
+      decision = { allowed: true, source: 'session' };
+    } else if (!this.prompt) {
+      decision = { allowed: false, source: 'no-terminal', reason: 'requires approval, but there is nobody to ask (no terminal, or a headless run)' };
+    } else {
+      const answer = await this.prompt(`Allow ${tool}: ${target}?`);
+      if (answer === 'always') this.alwaysAllowed.add(key);
+      decision = answer === 'no'
+        ? { allowed: false, source: 'user', reason: 'the user declined this action' }
+        : { allowed: true, source: 'user' };
+    }
+
+    this.audit(tool, target, action, decision);
+    return decision;
+  }
+
+  private audit(tool: string, target: string, policy: PermissionAction, decision: PermissionDecision): void {
+    if (!this.auditLog) return;
+    fs.mkdirSync(path.dirname(this.auditLog), { recursive: true });
+    fs.appendFileSync(this.auditLog, JSON.stringify({
+      timestamp: new Date().toISOString(),
+      sessionId: this.sessionId,
+      tool,
+      target,
+      policy,
+      allowed: decision.allowed,
+      source: decision.source,
+      reason: decision.reason
+    }) + '\n');
+  }
+}
+
+// ============================================
+// PART 4: TERMINAL PROMPT
+// ============================================
+
+/**
+ * ▶️ What the user sees:
+ *
+ *   ⚠️  Allow run_command: npm install lodash?  [y]es / [a]lways / [n]o:
+ */
+export const terminalPrompt: PermissionPrompt = async (question) => {
+  const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+  try {
+    const answer = await new Promise<string>(resolve =>
+      rl.question(`\n  ⚠️  ${question}  [y]es / [a]lways / [n]o: `, resolve)
+    );
+    const normalized = answer.trim().toLowerCase();
+    if (normalized === 'a' || normalized === 'always') return 'always';
+    if (normalized === 'y' || normalized === 'yes') return 'yes';
+    return 'no';
+  } finally {
+    rl.close();
+  }
+};
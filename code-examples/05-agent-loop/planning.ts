@@ -0,0 +1,188 @@
+/**
+ * 🎓 MODULE 5: Plan, Then Execute
+ *
+ * On a long task the model's sub-goals live only in old messages. After a
+ * dozen tool calls (or a compaction) they're effectively gone, and the
+ * model declares victory after step 2 of 5.
+ *
+ * THE FIX: make the plan a piece of STATE the model maintains with a tool.
+ *
+ *   Iteration 1   only update_plan is offered → the model writes the todo list
+ *   Every call    the current plan is appended to the last user message
+ *   Each step     update_plan marks items in_progress / done / blocked
+ *   The end       the result lists what got done and what was abandoned
+ *
+ * 💡 KEY INSIGHT: Re-injecting the plan into EVERY request costs a few
+ * dozen tokens and means the model can never lose track of it — not even
+ * after compaction summarized the messages where it was written.
+ */
+
+import Anthropic from '@anthropic-ai/sdk';
+import { z } from 'zod';
+import { defineTool } from './registry.js';
+
+// ============================================
+// PART 1: THE PLAN
+// ============================================
+
+export type PlanStatus = 'pending' | 'in_progress' | 'done' | 'blocked';
+
+export interface PlanItem {
+  id: number;
+  title: string;
+  status: PlanStatus;
+  /** Why it's blocked, or anything worth remembering about it */
+  note?: string;
+}
+
+const STATUSES: PlanStatus[] = ['pending', 'in_progress', 'done', 'blocked'];
+
+const STATUS_ICONS: Record<PlanStatus, string> = {
+  pending: '⬜',
+  in_progress: '🔄',
+  done: '✅',
+  blocked: '🚫'
+};
+
+const status = z.enum(STATUSES as [PlanStatus, ...PlanStatus[]]);
+
+/** update_plan's input — checked by the registry before Plan.apply sees it */
+export const planUpdateSchema = z.object({
+  items: z.array(z.object({
+    title: z.string().trim().min(1, 'needs a non-empty title').describe("One concrete step"),
+    status: status.optional(),
+    note: z.string().optional()
+  })).optional().describe("The whole plan, in order. Replaces the current plan."),
+  updates: z.array(z.object({
+    id: z.number(),
+    status: status.optional(),
+    note: z.string().optional().describe("E.g. why an item is blocked")
+  })).optional().describe("Status changes for existing items")
+});
+
+export type PlanUpdate = z.infer<typeof planUpdateSchema>;
+
+export class Plan {
+  constructor(
+    public items: PlanItem[] = [],
+    /** Unfinished items the model removed by rewriting the plan */
+    public dropped: PlanItem[] = []
+  ) {}
+
+  /**
+   * 📺 SHOW THIS: What update_plan does. Two kinds of change:
+   *   items   → (re)write the whole list — for the first plan, or re-planning
+   *   updates → change the status/note of items by id — the usual case
+   *
+   * All or nothing: an unknown id leaves the plan as it was. Returns the
+   * text the model sees as the tool result.
+   */
+  apply({ items, updates = [] }: PlanUpdate): string {
+    if (!items && updates.length === 0) {
+      return 'Error: pass "items" to write the plan, or "updates" to change item statuses';
+    }
+
+    const next: PlanItem[] = items
+      ? items.map((item, index) => ({
+          id: index + 1,
+          title: item.title,
+          status: item.status ?? 'pending',
+          ...(item.note ? { note: item.note } : {})
+        }))
+      : this.items;
+    const unknown = updates.find(update => !next.some(item => item.id === update.id));
+    if (unknown) {
+      return `Error: no plan item with id ${unknown.id} — nothing was changed. Current plan:\n${this.render()}`;
+    }
+
+    if (items) {
+      // Unfinished items that disappear in a rewrite were abandoned, not done
+      const kept = new Set(next.map(item => item.title));
+      this.dropped.push(...this.items.filter(item => item.status !== 'done' && !kept.has(item.title)));
+      this.items = next;
+    }
+    for (const update of updates) {
+      const item = this.items.find(candidate => candidate.id === update.id)!;
+      if (update.status) item.status = update.status;
+      if (update.note !== undefined) item.note = update.note || undefined;
+    }
+
+    return `Plan updated:\n${this.render()}`;
+  }
+
+  render(): string {
+    return this.items
+      .map(item => `${STATUS_ICONS[item.status]} ${item.id}. ${item.title}${item.note ? ` — ${item.note}` : ''}`)
+      .join('\n');
+  }
+
+  /**
+   * ▶️ Appended to the final result:
+   *
+   *   Plan: 2 of 3 items done
+   *   ✅ 1. Read the auth module
+   *   ✅ 2. Add the rate limiter
+   *   Abandoned:
+   *   ⬜ 3. Write tests
+   */
+  summary(): string {
+    const done = this.items.filter(item => item.status === 'done');
+    const abandoned = [...this.items.filter(item => item.status !== 'done'), ...this.dropped];
+    const lines = [`Plan: ${done.length} of ${this.items.length} items done`];
+    lines.push(...done.map(item => `${STATUS_ICONS.done} ${item.id}. ${item.title}`));
+    if (abandoned.length > 0) {
+      lines.push('Abandoned:');
+      lines.push(...abandoned.map(item =>
+        `${STATUS_ICONS[item.status]} ${item.id}. ${item.title} (${item.status}${item.note ? `: ${item.note}` : ''})`
+      ));
+    }
+    return lines.join('\n');
+  }
+}
+
+// ============================================
+// PART 2: THE TOOL
+// ============================================
+
+export const updatePlanTool = defineTool({
+  name: "update_plan",
+  description: "Write or update your step-by-step plan for the task. Use `items` to write the full plan " +
+    "(first time, or when re-planning) and `updates` to change the status of items by id as you work. " +
+    "Keep exactly one item in_progress; mark items done as soon as they are finished, blocked if you can't continue them.",
+  // WHY read: it only changes the agent's own notes, never the project
+  category: "read",
+  schema: planUpdateSchema,
+  async handler(input, { plan }) {
+    if (!plan) return "Error: planning is not enabled for this run";
+    return plan.apply(input);
+  }
+});
+
+/** Sent instead of the plan while there is none yet */
+export const PLANNING_INSTRUCTION =
+  "Before doing anything else, call update_plan with a short step-by-step plan for this task. " +
+  "Then work through it, keeping the plan up to date.";
+
+// ============================================
+// PART 3: RE-INJECTION
+// ============================================
+
+/**
+ * 🔧 HOW IT WORKS: Copy the conversation and add the plan as a text block
+ * on the last user message. The stored conversation never changes, so the
+ * transcript doesn't fill up with old copies of the plan.
+ */
+export function withPlan(messages: Anthropic.MessageParam[], plan: Plan): Anthropic.MessageParam[] {
+  const last = messages[messages.length - 1];
+  if (last?.role !== 'user') return messages;
+
+  // No plan yet → ask for one instead
+  const note: Anthropic.TextBlockParam = {
+    type: 'text',
+    text: plan.items.length === 0 ? PLANNING_INSTRUCTION : `<current_plan>\n${plan.render()}\n</current_plan>`
+  };
+  const content = typeof last.content === 'string'
+    ? [{ type: 'text' as const, text: last.content }, note]
+    : [...last.content, note];
+  return [...messages.slice(0, -1), { role: 'user', content }];
+}
@@ -0,0 +1,380 @@
+/**
+ * 🎓 MODULE 5: Background Processes
+ *
+ * run_command waits for the command to finish — for at most 30 seconds.
+ * That's right for `npm test`, and useless for everything that never
+ * finishes on purpose:
+ *
+ *   npm run dev          a server the agent wants to curl
+ *   vitest --watch       a test runner that re-runs on every edit
+ *   cargo build          a build that takes four minutes
+ *
+ * THE FIX: start it, get a handle back, and check on it later.
+ *
+ *   start_process("npm run dev")          → p1
+ *   wait_for(p1, "ready on port \\d+")    → the output up to "ready on port 3000"
+ *   run_command("curl localhost:3000")    ...
+ *   read_output(p1)                       → only what's new since the last read
+ *   kill_process(p1)
+ *
+ * 💡 KEY INSIGHT: A process the agent forgets about keeps running after
+ * the agent is gone — holding a port, burning CPU. Everything started
+ * here is killed when the session ends, and there are caps on how many
+ * run at once and how much of their output is kept.
+ */
+
+import { spawn, type ChildProcessWithoutNullStreams } from 'child_process';
+import { z } from 'zod';
+import { defineTool, type ToolSpec } from './registry.js';
+
+// ============================================
+// PART 1: OUTPUT BUFFERS
+// ============================================
+
+/** Colors and cursor movement mean nothing to the model */
+const ANSI_ESCAPE = /\x1b\[[0-9;?]*[ -/]*[@-~]|\x1b\][^\x07]*\x07/g;
+
+/**
+ * 🔧 HOW IT WORKS: Everything a stream ever printed, numbered by position.
+ * The buffer keeps the last `max` characters; `cursor` is how far the
+ * model has read. Output dropped before it was read is counted, not lost
+ * silently.
+ */
+class OutputBuffer {
+  private text = '';
+  /** Position of text[0] in everything ever written */
+  private base = 0;
+  private cursor = 0;
+
+  constructor(private readonly max: number) {}
+
+  append(chunk: string): void {
+    this.text += chunk.replace(ANSI_ESCAPE, '');
+    if (this.text.length > this.max) {
+      const drop = this.text.length - this.max;
+      this.text = this.text.slice(drop);
+      this.base += drop;
+    }
+  }
+
+  /** What hasn't been read yet — without marking it read */
+  peek(): string {
+    return this.text.slice(Math.max(this.cursor, this.base) - this.base);
+  }
+
+  /** Up to `maxChars` of unread output, marked as read */
+  read(maxChars: number): { text: string; dropped: number; remaining: number } {
+    const start = Math.max(this.cursor, this.base);
+    const dropped = start - this.cursor;
+    const text = this.text.slice(start - this.base, start - this.base + maxChars);
+    this.cursor = start + text.length;
+    return { text, dropped, remaining: this.base + this.text.length - this.cursor };
+  }
+}
+
+// ============================================
+// PART 2: THE PROCESS MANAGER
+// ============================================
+
+export interface ProcessLimits {
+  /** Processes running at the same time (default 4) */
+  maxProcesses?: number;
+  /** Characters kept per stream; older output is dropped (default 256k) */
+  maxBufferedChars?: number;
+}
+
+interface ManagedProcess {
+  id: string;
+  command: string;
+  child: ChildProcessWithoutNullStreams;
+  startedAt: number;
+  stdout: OutputBuffer;
+  stderr: OutputBuffer;
+  exit: { code: number | null; signal: string | null; at: number } | null;
+  /** Called on every chunk of output and on exit — how wait_for notices */
+  listeners: Set<() => void>;
+}
+
+/** Characters one read_output / wait_for returns at most */
+const MAX_READ_CHARS = 16_000;
+/** How long kill waits after SIGTERM before SIGKILL */
+const KILL_GRACE_MS = 3000;
+
+export class ProcessError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProcessError';
+  }
+}
+
+/**
+ * 📺 SHOW THIS: One per session (the REPL keeps one across tasks).
+ * Commands run in the workspace root, through the shell like run_command.
+ */
+export class ProcessManager {
+  private readonly processes = new Map<string, ManagedProcess>();
+  private readonly maxProcesses: number;
+  private readonly maxBufferedChars: number;
+  private nextId = 1;
+  // WHY: if the agent itself crashes, `finally` never runs — this still does
+  private readonly killAllNow = () => {
+    for (const managed of this.processes.values()) if (!managed.exit) this.signal(managed, 'SIGKILL');
+  };
+
+  constructor(private readonly cwd: string, limits: ProcessLimits = {}) {
+    this.maxProcesses = limits.maxProcesses ?? 4;
+    this.maxBufferedChars = limits.maxBufferedChars ?? 256_000;
+  }
+
+  get running(): number {
+    return [...this.processes.values()].filter(managed => !managed.exit).length;
+  }
+
+  start(command: string): string {
+    if (this.running >= this.maxProcesses) {
+      throw new ProcessError(`${this.running} processes are already running (the limit) — kill_process one you no longer need`);
+    }
+    // detached: the process gets its own group, so kill() reaches `npm run dev`'s children too
+    const child = spawn(command, { cwd: this.cwd, shell: true, detached: true, stdio: 'pipe' });
+    const id = `p${this.nextId++}`;
+    const managed: ManagedProcess = {
+      id,
+      command,
+      child,
+      startedAt: Date.now(),
+      stdout: new OutputBuffer(this.maxBufferedChars),
+      stderr: new OutputBuffer(this.maxBufferedChars),
+      exit: null,
+      listeners: new Set()
+    };
+    const notify = () => managed.listeners.forEach(listener => listener());
+    child.stdout.setEncoding('utf-8').on('data', (chunk: string) => { managed.stdout.append(chunk); notify(); });
+    child.stderr.setEncoding('utf-8').on('data', (chunk: string) => { managed.stderr.append(chunk); notify(); });
+    // A process that exits while we write to it must not crash the agent
+    child.stdin.on('error', () => {});
+    child.on('error', error => {
+      managed.stderr.append(`${error.message}\n`);
+      managed.exit ??= { code: null, signal: null, at: Date.now() };
+      notify();
+    });
+    child.on('close', (code, signal) => {
+      managed.exit = { code, signal, at: Date.now() };
+      notify();
+    });
+
+    if (this.processes.size === 0) process.on('exit', this.killAllNow);
+    this.processes.set(id, managed);
+    return id;
+  }
+
+  /** New output since the last read, with a status line on top */
+  read(id: string): string {
+    const managed = this.get(id);
+    const sections: string[] = [status(managed)];
+    let unread = 0;
+    for (const stream of ['stdout', 'stderr'] as const) {
+      const { text, dropped, remaining } = managed[stream].read(MAX_READ_CHARS);
+      unread += remaining;
+      if (!text && !dropped) continue;
+      sections.push(`${stream}:${dropped ? `\n[${dropped.toLocaleString('en-US')} chars dropped — more output than the buffer holds]` : ''}\n${text.trimEnd()}`);
+    }
+    if (sections.length === 1) sections.push('(no new output)');
+    if (unread > 0) sections.push(`[${unread.toLocaleString('en-US')} more chars unread — call read_output again]`);
+    return sections.join('\n');
+  }
+
+  write(id: string, input: string, end: boolean): string {
+    const managed = this.get(id);
+    if (managed.exit || !managed.child.stdin.writable) throw new ProcessError(`${id} is not accepting input — ${status(managed)}`);
+    managed.child.stdin.write(input);
+    if (end) managed.child.stdin.end();
+    return `Sent ${input.length} chars to ${id}${end ? ' and closed its stdin' : ''}`;
+  }
+
+  /**
+   * Until the unread output matches `pattern` (or, without one, until the
+   * process exits), the process exits, or the timeout — then read().
+   * Output from before the last read doesn't count: it was already seen.
+   */
+  async waitFor(id: string, options: { pattern?: RegExp; timeoutMs: number; signal?: AbortSignal }): Promise<string> {
+    const managed = this.get(id);
+    const { pattern, timeoutMs, signal } = options;
+    const matched = () => pattern !== undefined && (pattern.test(managed.stdout.peek()) || pattern.test(managed.stderr.peek()));
+
+    let outcome: 'matched' | 'exited' | 'timeout';
+    if (matched()) outcome = 'matched';
+    else if (managed.exit) outcome = 'exited';
+    else {
+      outcome = await new Promise((resolve, reject) => {
+        const done = (result: 'matched' | 'exited' | 'timeout') => {
+          clearTimeout(timer);
+          managed.listeners.delete(check);
+          signal?.removeEventListener('abort', onAbort);
+          resolve(result);
+        };
+        const check = () => {
+          if (matched()) done('matched');
+          else if (managed.exit) done('exited');
+        };
+        const onAbort = () => {
+          clearTimeout(timer);
+          managed.listeners.delete(check);
+          reject(signal!.reason);
+        };
+        const timer = setTimeout(() => done('timeout'), timeoutMs);
+        managed.listeners.add(check);
+        signal?.addEventListener('abort', onAbort, { once: true });
+      });
+    }
+
+    const headline = outcome === 'matched' ? `Matched ${pattern}`
+      : outcome === 'exited' ? (pattern ? `Exited before ${pattern} appeared` : 'Exited')
+      : `Timed out after ${timeoutMs / 1000}s${pattern ? ` — ${pattern} hasn't appeared yet` : ''}`;
+    return `${headline}\n${this.read(id)}`;
+  }
+
+  /** SIGTERM to the whole process group, SIGKILL if it's still there after a grace period */
+  async kill(id: string): Promise<string> {
+    const managed = this.get(id);
+    if (managed.exit) return `${id} had already stopped — ${status(managed)}`;
+    await this.stop(managed);
+    return `Killed ${id}\n${this.read(id)}`;
+  }
+
+  /** Kill everything still running. Called when the session ends. */
+  async close(): Promise<void> {
+    await Promise.all([...this.processes.values()].filter(managed => !managed.exit).map(managed => this.stop(managed)));
+    process.off('exit', this.killAllNow);
+  }
+
+  private async stop(managed: ManagedProcess): Promise<void> {
+    const exited = new Promise<void>(resolve => {
+      if (managed.exit) return resolve();
+      managed.listeners.add(() => managed.exit && resolve());
+    });
+    this.signal(managed, 'SIGTERM');
+    const graceful = await Promise.race([exited.then(() => true), delay(KILL_GRACE_MS).then(() => false)]);
+    if (!graceful) {
+      this.signal(managed, 'SIGKILL');
+      await Promise.race([exited, delay(KILL_GRACE_MS)]);
+    }
+  }
+
+  private signal(managed: ManagedProcess, signal: NodeJS.Signals): void {
+    try {
+      process.kill(-managed.child.pid!, signal);
+    } catch {
+      // The group is gone already, or it never started
+      managed.child.kill(signal);
+    }
+  }
+
+  private get(id: string): ManagedProcess {
+    const managed = this.processes.get(id);
+    if (!managed) {
+      const known = [...this.processes.keys()];
+      throw new ProcessError(`no process ${id}${known.length > 0 ? ` — started so far: ${known.join(', ')}` : ' — start one with start_process'}`);
+    }
+    return managed;
+  }
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms).unref());
+}
+
+function status(managed: ManagedProcess): string {
+  const seconds = (ms: number) => `${Math.round(ms / 100) / 10}s`;
+  const { exit } = managed;
+  const state = !exit ? `running for ${seconds(Date.now() - managed.startedAt)} (pid ${managed.child.pid})`
+    : exit.signal ? `killed by ${exit.signal} after ${seconds(exit.at - managed.startedAt)}`
+    : exit.code === null ? 'failed to start'
+    : `exited with code ${exit.code} after ${seconds(exit.at - managed.startedAt)}`;
+  const command = managed.command.length > 60 ? `${managed.command.slice(0, 57)}...` : managed.command;
+  return `[${managed.id}] ${command} · ${state}`;
+}
+
+// ============================================
+// PART 3: THE TOOLS
+// ============================================
+
+const processId = z.string().describe("The id start_process returned, e.g. \"p1\"");
+
+/** Every handler needs the session's manager; runAgent leaves it out when processes are turned off */
+function managerOf(processes: ProcessManager | undefined): ProcessManager {
+  if (!processes) throw new ProcessError('background processes are not enabled for this run');
+  return processes;
+}
+
+export const processTools: ToolSpec[] = [
+  defineTool({
+    name: "start_process",
+    description: "Start a long-running shell command in the background — a dev server, a watcher, a long build — " +
+      "and get its id back right away. Check on it with read_output or wait_for, stop it with kill_process. " +
+      "Use run_command instead for commands that finish on their own within 30 seconds.",
+    // 💡 Same permission rules as run_command: it runs the same shell (see permissions.ts)
+    category: "exec",
+    schema: z.object({
+      command: z.string().trim().min(1).describe("Shell command to start")
+    }),
+    async handler({ command }, { processes, signal }) {
+      const manager = managerOf(processes);
+      const id = manager.start(command);
+      // A second is enough to catch "command not found" and instant crashes
+      const first = await manager.waitFor(id, { timeoutMs: 1000, signal });
+      return `Started ${id}. Use this id with read_output, wait_for, send_input and kill_process.\n${first.split('\n').slice(1).join('\n')}`;
+    }
+  }),
+  defineTool({
+    name: "read_output",
+    description: "Get a background process's status and the stdout/stderr it printed since your last read_output or wait_for.",
+    category: "read",
+    schema: z.object({ id: processId }),
+    async handler({ id }, { processes }) {
+      return managerOf(processes).read(id);
+    }
+  }),
+  defineTool({
+    name: "wait_for",
+    description: "Wait until a background process prints something matching `pattern` (a regular expression, tested " +
+      "against output you haven't read yet), or — without a pattern — until it exits. Returns the new output.",
+    category: "read",
+    schema: z.object({
+      id: processId,
+      pattern: z.string().optional().describe("e.g. \"listening on|ready in\" or \"\\\\d+ passed\""),
+      timeout_seconds: z.number().min(1).max(300).default(30)
+    }),
+    async handler({ id, pattern, timeout_seconds }, { processes, signal }) {
+      let regex: RegExp | undefined;
+      try {
+        regex = pattern === undefined ? undefined : new RegExp(pattern, 'm');
+      } catch (error) {
+        return `Error: ${(error as Error).message}`;
+      }
+      return managerOf(processes).waitFor(id, { pattern: regex, timeoutMs: timeout_seconds * 1000, signal });
+    }
+  }),
+  defineTool({
+    name: "send_input",
+    description: "Type into a background process's stdin — answering a prompt, a command for a REPL.",
+    category: "exec",
+    schema: z.object({
+      id: processId,
+      text: z.string().describe("What to send"),
+      press_enter: z.boolean().default(true).describe("Add a newline after the text"),
+      close_stdin: z.boolean().default(false).describe("Send end-of-file afterwards")
+    }),
+    async handler({ id, text, press_enter, close_stdin }, { processes }) {
+      return managerOf(processes).write(id, press_enter ? `${text}\n` : text, close_stdin);
+    }
+  }),
+  defineTool({
+    name: "kill_process",
+    description: "Stop a background process (and anything it started). Returns its last output.",
+    category: "exec",
+    schema: z.object({ id: processId }),
+    async handler({ id }, { processes }) {
+      return managerOf(processes).kill(id);
+    }
+  })
+];
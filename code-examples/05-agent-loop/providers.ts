@@ -0,0 +1,526 @@
+/**
+ * 🎓 MODULE 5: Model Providers
+ *
+ * The agent loop should not care WHICH model it is talking to.
+ *
+ * Every provider speaks a slightly different dialect:
+ * - Anthropic: content blocks (text, tool_use, tool_result)
+ * - AI SDK (Vercel): CoreMessage parts (tool-call, tool-result)
+ * - OpenAI-compatible servers (Ollama, LM Studio, vLLM): chat completions
+ *
+ * So we pick ONE internal format (Anthropic-style messages, which the loop
+ * already uses) and write a small adapter per provider that translates
+ * to and from it.
+ *
+ * 💡 KEY INSIGHT: Once the loop depends on an interface instead of a client,
+ * we can plug in a SCRIPTED provider that replays canned turns. That makes
+ * the whole think-act-observe loop testable offline, with no API key.
+ */
+
+import Anthropic from '@anthropic-ai/sdk';
+import { generateText, type CoreMessage, type LanguageModel } from 'ai';
+import { anthropic } from '@ai-sdk/anthropic';
+import { toAISDKTools, toOpenAITools } from './registry.js';
+import { ModelApiError } from './retry.js';
+import { cachedSystem, cachedTools } from './caching.js';
+
+// ============================================
+// PART 1: THE PROVIDER INTERFACE
+// ============================================
+
+export const DEFAULT_MODEL = 'claude-sonnet-4-20250514';
+
+/** A content block the model produced: plain text or a tool call */
+export type AssistantBlock = Anthropic.TextBlockParam | Anthropic.ToolUseBlockParam;
+
+export interface ModelRequest {
+  system: string;
+  messages: Anthropic.MessageParam[];
+  tools: Anthropic.Tool[];
+  maxTokens: number;
+  /**
+   * Put cache breakpoints on the tools and the system prompt (see caching.ts).
+   * The messages carry their own. Providers without explicit caching ignore it.
+   */
+  promptCache?: boolean;
+  /** Cancels the in-flight request */
+  signal?: AbortSignal;
+  /** Receives assistant text as it is generated (all at once if the provider can't stream) */
+  onTextDelta?: (text: string) => void;
+}
+
+export interface ModelUsage {
+  /** Input tokens billed at the full rate (cache hits and writes are counted separately) */
+  inputTokens: number;
+  outputTokens: number;
+  /** Input tokens served from the prompt cache */
+  cacheReadTokens?: number;
+  /** Input tokens written to the prompt cache */
+  cacheWriteTokens?: number;
+}
+
+export interface ModelResponse {
+  content: AssistantBlock[];
+  stopReason: 'end_turn' | 'tool_use' | 'max_tokens';
+  usage: ModelUsage;
+}
+
+/**
+ * 📺 SHOW THIS: The only thing runAgent needs from a model.
+ * One method: messages in, content blocks out.
+ */
+export interface ModelProvider {
+  name: string;
+  model: string;
+  createMessage(request: ModelRequest): Promise<ModelResponse>;
+}
+
+// ============================================
+// PART 2: ANTHROPIC SDK ADAPTER
+// ============================================
+
+/**
+ * The native adapter — our internal format IS Anthropic's format,
+ * so this is mostly a pass-through.
+ */
+export function createAnthropicProvider(
+  options: { model?: string; client?: Anthropic } = {}
+): ModelProvider {
+  const model = options.model ?? DEFAULT_MODEL;
+  // WHY lazy: `new Anthropic()` throws without ANTHROPIC_API_KEY, and we
+  // don't want merely importing this file to require one.
+  let client = options.client;
+
+  return {
+    name: 'anthropic',
+    model,
+    async createMessage(request) {
+      // WHY maxRetries 0: retry.ts does the retrying, where the loop can see it and fall back
+      client ??= new Anthropic({ maxRetries: 0 });
+      // 📺 Streaming: text shows up as it's generated, tool calls arrive at the end
+      const stream = client.messages.stream({
+        model,
+        max_tokens: request.maxTokens,
+        system: request.promptCache ? cachedSystem(request.system) : request.system,
+        ...(request.tools.length > 0 ? { tools: request.promptCache ? cachedTools(request.tools) : request.tools } : {}),
+        messages: withoutEmptyTurns(request.messages)
+      }, { signal: request.signal });
+      if (request.onTextDelta) stream.on('text', request.onTextDelta);
+      const response = await stream.finalMessage();
+
+      const content: AssistantBlock[] = [];
+      for (const block of response.content) {
+        if (block.type === 'text') {
+          content.push({ type: 'text', text: block.text });
+        } else if (block.type === 'tool_use') {
+          content.push({ type: 'tool_use', id: block.id, name: block.name, input: block.input });
+        }
+      }
+
+      return {
+        content,
+        stopReason: toStopReason(response.stop_reason, content),
+        usage: {
+          inputTokens: response.usage.input_tokens,
+          outputTokens: response.usage.output_tokens,
+          cacheReadTokens: response.usage.cache_read_input_tokens ?? 0,
+          cacheWriteTokens: response.usage.cache_creation_input_tokens ?? 0
+        }
+      };
+    }
+  };
+}
+
+// ============================================
+// PART 3: AI SDK ADAPTER
+// ============================================
+
+/**
+ * Wrap any AI SDK model — the same `anthropic('...')` models used in
+ * Modules 1 and 2, or openai(), google(), etc.
+ *
+ * 💡 KEY INSIGHT: We pass tools WITHOUT an `execute` function and use a
+ * single step. The AI SDK then hands the tool calls back to us instead of
+ * running them itself, so our loop stays in control.
+ */
+export function createAISDKProvider(model: LanguageModel): ModelProvider {
+  return {
+    name: `ai-sdk:${model.provider}`,
+    model: model.modelId,
+    async createMessage(request) {
+      const result = await generateText({
+        model,
+        system: request.system,
+        messages: toCoreMessages(withoutEmptyTurns(request.messages)),
+        tools: toAISDKTools(request.tools),
+        maxTokens: request.maxTokens,
+        maxSteps: 1,
+        maxRetries: 0,
+        abortSignal: request.signal
+      });
+
+      const content: AssistantBlock[] = [];
+      if (result.text) content.push({ type: 'text', text: result.text });
+      emitText(content, request.onTextDelta);
+      for (const call of result.toolCalls) {
+        content.push({ type: 'tool_use', id: call.toolCallId, name: call.toolName, input: call.args });
+      }
+
+      // Cache counts only exist in provider-specific metadata
+      const anthropicCache = result.providerMetadata?.anthropic;
+      const openaiCached = Number(result.providerMetadata?.openai?.cachedPromptTokens ?? 0);
+      const cacheReadTokens = Number(anthropicCache?.cacheReadInputTokens ?? 0) + openaiCached;
+      return {
+        content,
+        stopReason: result.finishReason === 'length' ? 'max_tokens' : toStopReason(null, content),
+        usage: {
+          // WHY subtract: OpenAI counts cached tokens inside promptTokens, Anthropic doesn't
+          inputTokens: result.usage.promptTokens - openaiCached,
+          outputTokens: result.usage.completionTokens,
+          cacheReadTokens,
+          cacheWriteTokens: Number(anthropicCache?.cacheCreationInputTokens ?? 0)
+        }
+      };
+    }
+  };
+}
+
+/**
+ * Translate Anthropic-style messages to AI SDK CoreMessages.
+ * tool_result blocks become separate `tool` role messages.
+ */
+function toCoreMessages(messages: Anthropic.MessageParam[]): CoreMessage[] {
+  const toolNames = new Map<string, string>();
+  const result: CoreMessage[] = [];
+
+  for (const message of messages) {
+    if (typeof message.content === 'string') {
+      result.push({ role: message.role, content: message.content });
+      continue;
+    }
+
+    if (message.role === 'assistant') {
+      const parts: Array<
+        | { type: 'text'; text: string }
+        | { type: 'tool-call'; toolCallId: string; toolName: string; args: unknown }
+      > = [];
+      for (const block of message.content) {
+        if (block.type === 'text') {
+          parts.push({ type: 'text', text: block.text });
+        } else if (block.type === 'tool_use') {
+          toolNames.set(block.id, block.name);
+          parts.push({ type: 'tool-call', toolCallId: block.id, toolName: block.name, args: block.input });
+        }
+      }
+      result.push({ role: 'assistant', content: parts });
+      continue;
+    }
+
+    const text = message.content
+      .filter((b): b is Anthropic.TextBlockParam => b.type === 'text')
+      .map(b => b.text)
+      .join('\n');
+    const toolResults = message.content.filter(
+      (b): b is Anthropic.ToolResultBlockParam => b.type === 'tool_result'
+    );
+
+    if (toolResults.length > 0) {
+      result.push({
+        role: 'tool',
+        content: toolResults.map(b => ({
+          type: 'tool-result' as const,
+          toolCallId: b.tool_use_id,
+          toolName: toolNames.get(b.tool_use_id) ?? 'unknown',
+          result: toolResultText(b),
+          isError: b.is_error
+        }))
+      });
+    }
+    if (text) result.push({ role: 'user', content: text });
+  }
+
+  return result;
+}
+
+// ============================================
+// PART 4: OPENAI-COMPATIBLE ADAPTER
+// ============================================
+
+/**
+ * Talk to any server that implements POST /chat/completions:
+ * Ollama (http://localhost:11434/v1), LM Studio, vLLM, llama.cpp, OpenAI.
+ *
+ * We use plain fetch — no extra dependency needed.
+ */
+export function createOpenAICompatibleProvider(options: {
+  baseURL: string;
+  model: string;
+  apiKey?: string;
+}): ModelProvider {
+  const baseURL = options.baseURL.replace(/\/+$/, '');
+
+  return {
+    name: 'openai-compatible',
+    model: options.model,
+    async createMessage(request) {
+      const response = await fetch(`${baseURL}/chat/completions`, {
+        method: 'POST',
+        signal: request.signal,
+        headers: {
+          'Content-Type': 'application/json',
+          ...(options.apiKey ? { Authorization: `Bearer ${options.apiKey}` } : {})
+        },
+        body: JSON.stringify({
+          model: options.model,
+          max_tokens: request.maxTokens,
+          messages: toOpenAIMessages(request.system, withoutEmptyTurns(request.messages)),
+          // WHY conditional: some local servers reject an empty tools array
+          ...(request.tools.length > 0 ? {
+            tools: toOpenAITools(request.tools)
+          } : {})
+        })
+      });
+
+      if (!response.ok) {
+        throw new ModelApiError(
+          `${baseURL} returned ${response.status}: ${await response.text()}`,
+          response.status,
+          Object.fromEntries(response.headers)
+        );
+      }
+
+      const data = (await response.json()) as OpenAIChatResponse;
+      const choice = data.choices[0];
+      const cached = data.usage?.prompt_tokens_details?.cached_tokens ?? 0;
+      const content: AssistantBlock[] = [];
+      if (choice.message.content) content.push({ type: 'text', text: choice.message.content });
+      emitText(content, request.onTextDelta);
+      for (const call of choice.message.tool_calls ?? []) {
+        content.push({
+          type: 'tool_use',
+          id: call.id,
+          name: call.function.name,
+          input: parseArguments(call.function.arguments)
+        });
+      }
+
+      return {
+        content,
+        stopReason: choice.finish_reason === 'length' ? 'max_tokens' : toStopReason(null, content),
+        usage: {
+          // Cached tokens are part of prompt_tokens here — split them out
+          inputTokens: (data.usage?.prompt_tokens ?? 0) - cached,
+          outputTokens: data.usage?.completion_tokens ?? 0,
+          cacheReadTokens: cached
+        }
+      };
+    }
+  };
+}
+
+interface OpenAIChatResponse {
+  choices: Array<{
+    finish_reason: string;
+    message: {
+      content: string | null;
+      tool_calls?: Array<{ id: string; function: { name: string; arguments: string } }>;
+    };
+  }>;
+  usage?: {
+    prompt_tokens: number;
+    completion_tokens: number;
+    prompt_tokens_details?: { cached_tokens?: number };
+  };
+}
+
+function toOpenAIMessages(system: string, messages: Anthropic.MessageParam[]): unknown[] {
+  const result: unknown[] = [{ role: 'system', content: system }];
+
+  for (const message of messages) {
+    if (typeof message.content === 'string') {
+      result.push({ role: message.role, content: message.content });
+      continue;
+    }
+
+    if (message.role === 'assistant') {
+      const text = message.content
+        .filter((b): b is Anthropic.TextBlockParam => b.type === 'text')
+        .map(b => b.text)
+        .join('');
+      const toolCalls = message.content
+        .filter((b): b is Anthropic.ToolUseBlockParam => b.type === 'tool_use')
+        .map(b => ({
+          id: b.id,
+          type: 'function',
+          function: { name: b.name, arguments: JSON.stringify(b.input) }
+        }));
+      result.push({
+        role: 'assistant',
+        content: text || null,
+        ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {})
+      });
+      continue;
+    }
+
+    for (const block of message.content) {
+      if (block.type === 'tool_result') {
+        result.push({ role: 'tool', tool_call_id: block.tool_use_id, content: toolResultText(block) });
+      } else if (block.type === 'text') {
+        result.push({ role: 'user', content: block.text });
+      }
+    }
+  }
+
+  return result;
+}
+
+// WHY: Small local models sometimes emit invalid JSON arguments.
+// Hand the raw string to the tool so the error is visible instead of crashing.
+function parseArguments(raw: string): Record<string, unknown> {
+  try {
+    return JSON.parse(raw || '{}');
+  } catch {
+    return { _raw: raw };
+  }
+}
+
+// ============================================
+// PART 5: SCRIPTED PROVIDER (OFFLINE TESTING)
+// ============================================
+
+/** One canned assistant turn */
+export interface ScriptedTurn {
+  text?: string;
+  toolCalls?: Array<{ name: string; input: Record<string, unknown>; id?: string }>;
+  usage?: Partial<ModelUsage>;
+}
+
+export interface ScriptedProvider extends ModelProvider {
+  /** Every request the loop sent, for assertions in tests */
+  requests: ModelRequest[];
+}
+
+/**
+ * ▶️ RUN THIS in tests: replays turns in order, one per model call.
+ *
+ * A turn can also be a function, so a test can react to what the agent
+ * actually sent (e.g. check the last tool_result before answering).
+ *
+ *   const provider = createScriptedProvider([
+ *     { toolCalls: [{ name: 'read_file', input: { path: 'package.json' } }] },
+ *     { text: 'This is a Node project.' }
+ *   ]);
+ *   const result = await runAgent('What is this?', { provider, verbose: false });
+ */
+export function createScriptedProvider(
+  turns: Array<ScriptedTurn | ((request: ModelRequest) => ScriptedTurn)>
+): ScriptedProvider {
+  const requests: ModelRequest[] = [];
+  let callCount = 0;
+
+  return {
+    name: 'scripted',
+    model: 'scripted',
+    requests,
+    async createMessage(request) {
+      // WHY structuredClone: the loop keeps mutating `messages` after the call
+      const { signal: _signal, onTextDelta: _onTextDelta, ...snapshot } = request;
+      requests.push(structuredClone(snapshot));
+      const next = turns[requests.length - 1];
+      if (!next) {
+        throw new Error(`Scripted provider ran out of turns (call ${requests.length})`);
+      }
+      const turn = typeof next === 'function' ? next(request) : next;
+
+      const content: AssistantBlock[] = [];
+      if (turn.text) content.push({ type: 'text', text: turn.text });
+      emitText(content, request.onTextDelta);
+      for (const call of turn.toolCalls ?? []) {
+        callCount++;
+        content.push({
+          type: 'tool_use',
+          id: call.id ?? `toolu_scripted_${callCount}`,
+          name: call.name,
+          input: call.input
+        });
+      }
+
+      return {
+        content,
+        stopReason: toStopReason(null, content),
+        usage: { inputTokens: 0, outputTokens: 0, ...turn.usage }
+      };
+    }
+  };
+}
+
+// ============================================
+// PART 6: HELPERS
+// ============================================
+
+function toStopReason(reason: string | null, content: AssistantBlock[]): ModelResponse['stopReason'] {
+  if (reason === 'max_tokens') return 'max_tokens';
+  return content.some(b => b.type === 'tool_use') ? 'tool_use' : 'end_turn';
+}
+
+// For providers that don't stream: deliver the whole text as one delta
+function emitText(content: AssistantBlock[], onTextDelta?: (text: string) => void): void {
+  for (const block of content) {
+    if (block.type === 'text' && block.text) onTextDelta?.(block.text);
+  }
+}
+
+/**
+ * ⚠️ A turn where the model said nothing (an empty end_turn, max_tokens
+ * before the first word) is still in the conversation, and every API
+ * rejects an empty assistant message — or an empty text block. Drop them.
+ * The user turns on either side end up next to each other; the APIs merge those.
+ */
+function withoutEmptyTurns(messages: Anthropic.MessageParam[]): Anthropic.MessageParam[] {
+  return messages.flatMap(message => {
+    if (message.role !== 'assistant') return [message];
+    if (typeof message.content === 'string') return message.content ? [message] : [];
+    const content = message.content.filter(block => block.type !== 'text' || block.text !== '');
+    return content.length > 0 ? [{ ...message, content }] : [];
+  });
+}
+
+function toolResultText(block: Anthropic.ToolResultBlockParam): string {
+  if (typeof block.content === 'string') return block.content;
+  return (block.content ?? [])
+    .map(part => (part.type === 'text' ? part.text : `[${part.type}]`))
+    .join('\n');
+}
+
+/**
+ * Pick a provider from environment variables, so the demo can be pointed
+ * at a different backend without code changes:
+ *
+ *   AGENT_PROVIDER=anthropic          (default)
+ *   AGENT_PROVIDER=ai-sdk             uses @ai-sdk/anthropic
+ *   AGENT_PROVIDER=openai-compatible  needs OPENAI_BASE_URL (e.g. http://localhost:11434/v1)
+ *   AGENT_MODEL=<model id>
+ *   AGENT_FALLBACK_MODEL=<model id>   used when AGENT_MODEL is unavailable (see retry.ts)
+ */
+export function providerFromEnv(env: NodeJS.ProcessEnv = process.env): ModelProvider {
+  const model = env.AGENT_MODEL;
+
+  switch (env.AGENT_PROVIDER ?? 'anthropic') {
+    case 'anthropic':
+      return createAnthropicProvider({ model });
+    case 'ai-sdk':
+      return createAISDKProvider(anthropic(model ?? DEFAULT_MODEL));
+    case 'openai-compatible':
+      if (!env.OPENAI_BASE_URL || !model) {
+        throw new Error('AGENT_PROVIDER=openai-compatible needs OPENAI_BASE_URL and AGENT_MODEL');
+      }
+      return createOpenAICompatibleProvider({ baseURL: env.OPENAI_BASE_URL, model, apiKey: env.OPENAI_API_KEY });
+    default:
+      throw new Error(`Unknown AGENT_PROVIDER: ${env.AGENT_PROVIDER}`);
+  }
+}
+
+/** The same backend with AGENT_FALLBACK_MODEL, if one is set */
+export function fallbackProviderFromEnv(env: NodeJS.ProcessEnv = process.env): ModelProvider | undefined {
+  return env.AGENT_FALLBACK_MODEL ? providerFromEnv({ ...env, AGENT_MODEL: env.AGENT_FALLBACK_MODEL }) : undefined;
+}
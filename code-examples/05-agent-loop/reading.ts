@@ -0,0 +1,195 @@
+/**
+ * 🎓 MODULE 5: Reading Files in Pages
+ *
+ * The first read_file returned the first 10,000 characters and
+ * "...[truncated]". Line 900 of a 2,000-line file? Unreachable. A PNG?
+ * 10,000 characters of mojibake, straight into the context window.
+ *
+ * THE FIX: read_file takes `offset` and `limit` (in lines) and answers
+ * with a header the model can reason about:
+ *
+ *   src/server.ts · lines 1–500 of 1,832 · sha256:3f9a0c2b7e41d8a5
+ *        1	import express from 'express';
+ *        2	...
+ *   [truncated: 1,332 more lines. Call read_file again with offset: 501]
+ *
+ * Files that aren't text are DESCRIBED ("PNG image, 640×480, 18 KB")
+ * instead of dumped, and text that isn't UTF-8 is decoded as what it is.
+ *
+ * 💡 KEY INSIGHT: The hash lets the model notice a file changed between
+ * two reads (a test run regenerated it, a sub-agent edited it) without
+ * comparing content.
+ */
+
+import * as fsp from 'fs/promises';
+import { createHash } from 'crypto';
+
+// ============================================
+// PART 1: WHAT KIND OF FILE IS THIS?
+// ============================================
+
+export type TextEncoding = 'utf-8' | 'utf-16le' | 'utf-16be' | 'windows-1252';
+
+/** Magic numbers of the binary formats worth naming */
+const SIGNATURES: Array<{ kind: string; bytes: number[]; at?: number }> = [
+  { kind: 'PNG image', bytes: [0x89, 0x50, 0x4e, 0x47] },
+  { kind: 'JPEG image', bytes: [0xff, 0xd8, 0xff] },
+  { kind: 'GIF image', bytes: [0x47, 0x49, 0x46, 0x38] },
+  { kind: 'WebP image', bytes: [0x57, 0x45, 0x42, 0x50], at: 8 },
+  { kind: 'BMP image', bytes: [0x42, 0x4d] },
+  { kind: 'ICO image', bytes: [0x00, 0x00, 0x01, 0x00] },
+  { kind: 'PDF document', bytes: [0x25, 0x50, 0x44, 0x46] },
+  { kind: 'ZIP archive (also .jar, .docx, .xlsx)', bytes: [0x50, 0x4b, 0x03, 0x04] },
+  { kind: 'gzip archive', bytes: [0x1f, 0x8b] },
+  { kind: 'WebAssembly module', bytes: [0x00, 0x61, 0x73, 0x6d] },
+  { kind: 'ELF executable', bytes: [0x7f, 0x45, 0x4c, 0x46] },
+  // "SQLite format 3\0" — the whole header, or every note titled "SQLite..." would match
+  { kind: 'SQLite database', bytes: [0x53, 0x51, 0x4c, 0x69, 0x74, 0x65, 0x20, 0x66, 0x6f, 0x72, 0x6d, 0x61, 0x74, 0x20, 0x33, 0x00] }
+];
+
+/** "BM", "%PDF", "GIF8" — signatures a text file can start with too */
+const isPrintable = (bytes: number[]) => bytes.every(byte => byte >= 0x20 && byte < 0x7f);
+
+function startsWith(content: Buffer, bytes: number[], at = 0): boolean {
+  return content.length >= at + bytes.length && bytes.every((byte, i) => content[at + i] === byte);
+}
+
+/** Width × height from the image header, where it's cheap to find */
+function imageSize(kind: string, content: Buffer): string | null {
+  if (kind === 'PNG image' && content.length >= 24) return `${content.readUInt32BE(16)}×${content.readUInt32BE(20)}`;
+  if (kind === 'GIF image' && content.length >= 10) return `${content.readUInt16LE(6)}×${content.readUInt16LE(8)}`;
+  if (kind === 'JPEG image') {
+    // Walk the segments to the first SOFn frame header
+    for (let i = 2; i + 9 < content.length;) {
+      if (content[i] !== 0xff) return null;
+      const marker = content[i + 1];
+      if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+        return `${content.readUInt16BE(i + 7)}×${content.readUInt16BE(i + 5)}`;
+      }
+      i += 2 + content.readUInt16BE(i + 2);
+    }
+  }
+  return null;
+}
+
+function formatLines(count: number): string {
+  return `${count.toLocaleString('en-US')} line${count === 1 ? '' : 's'}`;
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} bytes`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+/**
+ * 🔧 HOW IT WORKS: Byte-order marks first (UTF-16 is full of NUL bytes
+ * but is text), then "does it decode as UTF-8 without a single invalid
+ * sequence?" — if not, it's almost always a legacy Windows/Latin-1 file.
+ */
+export function detectEncoding(content: Buffer): { encoding: TextEncoding; bom: number } | null {
+  if (startsWith(content, [0xef, 0xbb, 0xbf])) return { encoding: 'utf-8', bom: 3 };
+  if (startsWith(content, [0xff, 0xfe])) return { encoding: 'utf-16le', bom: 2 };
+  if (startsWith(content, [0xfe, 0xff])) return { encoding: 'utf-16be', bom: 2 };
+  // Same heuristic as git: a NUL byte in the first 8 KB means binary
+  if (content.subarray(0, 8000).includes(0)) return null;
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(content);
+    return { encoding: 'utf-8', bom: 0 };
+  } catch {
+    return { encoding: 'windows-1252', bom: 0 };
+  }
+}
+
+function decode(content: Buffer, encoding: TextEncoding, bom: number): string {
+  const body = content.subarray(bom);
+  if (encoding === 'utf-16be') {
+    // TextDecoder has no utf-16be in every Node build — swap to LE instead
+    const swapped = Buffer.from(body.subarray(0, body.length - (body.length % 2)));
+    swapped.swap16();
+    return swapped.toString('utf16le');
+  }
+  return new TextDecoder(encoding).decode(body);
+}
+
+// ============================================
+// PART 2: A PAGE OF LINES
+// ============================================
+
+export interface ReadOptions {
+  /** First line to return, 1-based (default 1) */
+  offset?: number;
+  /** Lines to return (default 500) */
+  limit?: number;
+}
+
+export const DEFAULT_READ_LIMIT = 500;
+/** A page also ends when it gets this long — 500 minified lines are still too much */
+const MAX_PAGE_CHARS = 40_000;
+const MAX_LINE_CHARS = 2_000;
+/** Bigger files are described, not read */
+const MAX_READ_BYTES = 20 * 1024 * 1024;
+
+/**
+ * 📺 SHOW THIS: `displayPath` is what the model asked for — the header
+ * repeats it, so the next-page hint can be followed literally.
+ */
+export async function readFilePage(
+  filePath: string,
+  displayPath: string,
+  options: ReadOptions = {},
+  signal?: AbortSignal
+): Promise<string> {
+  const { offset = 1, limit = DEFAULT_READ_LIMIT } = options;
+  const stat = await fsp.stat(filePath);
+  if (stat.isDirectory()) return `Error: ${displayPath} is a directory — use list_directory`;
+  if (stat.size > MAX_READ_BYTES) {
+    return `${displayPath}: ${formatBytes(stat.size)}, too large to read. Use search_files to find the part you need.`;
+  }
+
+  const content = await fsp.readFile(filePath, { signal });
+  const hash = `sha256:${createHash('sha256').update(content).digest('hex').slice(0, 16)}`;
+
+  // ⚠️ A printable signature only counts when the rest isn't clean text — "BMW service notes" is no bitmap
+  const text = detectEncoding(content);
+  const cleanText = text !== null && text.encoding !== 'windows-1252';
+  const signature = SIGNATURES.find(({ bytes, at }) => startsWith(content, bytes, at) && !(cleanText && isPrintable(bytes)));
+  const detected = signature ? null : text;
+  if (!detected) {
+    const kind = signature?.kind ?? 'Binary file';
+    const size = signature ? imageSize(signature.kind, content) : null;
+    return `${displayPath} · ${hash}\n[${kind}${size ? `, ${size}` : ''}, ${formatBytes(content.length)} — not text, so its content isn't shown]`;
+  }
+
+  const lines = decode(content, detected.encoding, detected.bom).split(/\r?\n/);
+  // A trailing newline doesn't start another line
+  if (lines.length > 1 && lines[lines.length - 1] === '') lines.pop();
+  const total = content.length === detected.bom ? 0 : lines.length;
+  const encoding = detected.encoding === 'utf-8' ? '' : ` · ${detected.encoding}`;
+
+  if (total === 0) return `${displayPath} · empty file · ${hash}`;
+  if (offset > total) {
+    return `${displayPath} · ${formatLines(total)} · ${hash}\n[offset ${offset} is past the end of the file]`;
+  }
+
+  const page: string[] = [];
+  let chars = 0;
+  const width = String(Math.min(total, offset + limit - 1)).length;
+  for (let i = offset - 1; i < total && page.length < limit; i++) {
+    const line = lines[i].length > MAX_LINE_CHARS
+      ? `${lines[i].slice(0, MAX_LINE_CHARS)}...[line truncated, ${lines[i].length.toLocaleString('en-US')} chars]`
+      : lines[i];
+    // Always at least one line, however long — otherwise the next page would start at the same offset
+    if (page.length > 0 && chars + line.length > MAX_PAGE_CHARS) break;
+    page.push(`${String(i + 1).padStart(Math.max(width, 4))}\t${line}`);
+    chars += line.length + 1;
+  }
+
+  const last = offset + page.length - 1;
+  const range = offset === 1 && last === total ? formatLines(total) : `lines ${offset}–${last} of ${total.toLocaleString('en-US')}`;
+  const header = `${displayPath} · ${range} · ${hash}${encoding}`;
+  const more = last < total
+    ? `\n[truncated: ${formatLines(total - last)} more. Call read_file again with offset: ${last + 1}]`
+    : '';
+  return `${header}\n${page.join('\n')}${more}`;
+}
@@ -0,0 +1,206 @@
+/**
+ * 🎓 MODULE 5: One Tool Registry
+ *
+ * Module 2 defined tools with zod and the AI SDK's tool(). This module
+ * grew a JSON-schema array, a switch statement, and `input.path as string`
+ * casts that trust whatever the model sent. Three places to edit per tool,
+ * and nothing checks the input.
+ *
+ * THE FIX: a tool is ONE object —
+ *
+ *   defineTool({
+ *     name, description,
+ *     category: 'read' | 'write' | 'exec',   ← what permissions and scheduling go by
+ *     schema: z.object({ ... }),             ← validates input AND becomes the JSON Schema
+ *     handler: async (input, context) => ... ← input is already typed and checked
+ *   })
+ *
+ * The registry turns these into whatever each provider wants, and checks
+ * every call against the schema before the handler runs.
+ *
+ * 💡 KEY INSIGHT: A validation error is just another tool result. "path:
+ * Required" tells the model exactly what to fix — no exception, no crash.
+ */
+
+import Anthropic from '@anthropic-ai/sdk';
+import { jsonSchema, tool, zodSchema, type Tool as AISDKTool } from 'ai';
+import { z } from 'zod';
+import { Workspace, WorkspaceError } from './workspace.js';
+import type { Plan } from './planning.js';
+import type { DelegateAccess } from './delegation.js';
+import type { ProcessManager } from './processes.js';
+
+// ============================================
+// PART 1: DEFINING A TOOL
+// ============================================
+
+/**
+ * read  → only looks (runs side by side, allowed by default, fine for read-only sub-agents)
+ * write → changes files (checkpointed, triggers verification)
+ * exec  → anything else with side effects: commands, other processes
+ */
+export type ToolCategory = 'read' | 'write' | 'exec';
+
+/** What a handler gets besides its input — everything runAgent knows about the run */
+export interface ToolContext {
+  workspace?: Workspace;
+  /** Aborts the tool (kills a running command) when the run is cancelled */
+  signal?: AbortSignal;
+  /** Called with the resolved path right before a write tool changes a file */
+  beforeWrite?: (absolutePath: string) => void;
+  /** The task plan update_plan changes (plan mode only) */
+  plan?: Plan;
+  /** Runs a sub-agent for delegate_task and returns its summary */
+  delegate?: (input: { task: string; access: DelegateAccess }) => Promise<string>;
+  /** The session's background processes (start_process and friends) */
+  processes?: ProcessManager;
+}
+
+/**
+ * `ToolSpec` alone (input unknown) is what lists and the registry hold —
+ * the registry validates with `schema` before it calls `handler`.
+ */
+export interface ToolSpec<Input = unknown> {
+  name: string;
+  description: string;
+  category: ToolCategory;
+  /** Checks the model's input before the handler runs */
+  schema: z.ZodType<Input, z.ZodTypeDef, unknown>;
+  /** Sent to the model instead of the schema's JSON Schema — for tools described elsewhere (MCP) */
+  inputSchema?: Anthropic.Tool.InputSchema;
+  // WHY method syntax: its parameter is checked bivariantly, so a ToolSpec<{ path: string }> fits in a ToolSpec[]
+  handler(input: Input, context: ToolContext & { workspace: Workspace }): Promise<string>;
+}
+
+/** Identity function — it exists so TypeScript infers the handler's input from the schema */
+export function defineTool<S extends z.ZodTypeAny>(spec: {
+  name: string;
+  description: string;
+  category: ToolCategory;
+  schema: S;
+  handler: (input: z.output<S>, context: ToolContext & { workspace: Workspace }) => Promise<string>;
+}): ToolSpec<z.output<S>> {
+  return spec;
+}
+
+// ============================================
+// PART 2: THE REGISTRY
+// ============================================
+
+export class ToolRegistry {
+  private readonly specs = new Map<string, ToolSpec>();
+
+  constructor(specs: ToolSpec[] = []) {
+    this.register(...specs);
+  }
+
+  register(...specs: ToolSpec[]): this {
+    for (const spec of specs) {
+      if (this.specs.has(spec.name)) throw new Error(`Tool "${spec.name}" is registered twice`);
+      this.specs.set(spec.name, spec);
+    }
+    return this;
+  }
+
+  has(name: string): boolean {
+    return this.specs.has(name);
+  }
+
+  names(): string[] {
+    return [...this.specs.keys()];
+  }
+
+  categoryOf(name: string): ToolCategory | undefined {
+    return this.specs.get(name)?.category;
+  }
+
+  /** A registry with only some of the tools — e.g. what a read-only sub-agent gets */
+  only(names: Iterable<string>): ToolRegistry {
+    const keep = new Set(names);
+    return new ToolRegistry([...this.specs.values()].filter(spec => keep.has(spec.name)));
+  }
+
+  /**
+   * 📺 SHOW THIS: The zod schema IS the JSON Schema the model sees — they
+   * can't drift apart. Anthropic's format is the one ModelRequest carries;
+   * providers convert from it (see toOpenAITools / toAISDKTools below).
+   */
+  definitions(): Anthropic.Tool[] {
+    return [...this.specs.values()].map(spec => ({
+      name: spec.name,
+      description: spec.description,
+      input_schema: spec.inputSchema ?? toInputSchema(spec.schema)
+    }));
+  }
+
+  /**
+   * Check the input against the schema. On failure, the error is the
+   * tool result — the same shape for every tool.
+   */
+  parse(name: string, input: unknown): { success: true; input: unknown } | { success: false; error: string } {
+    const spec = this.specs.get(name);
+    if (!spec) return { success: false, error: `Error: unknown tool ${name}. Available: ${this.names().join(', ')}` };
+    const result = spec.schema.safeParse(input ?? {});
+    return result.success
+      ? { success: true, input: result.data }
+      : { success: false, error: formatValidationError(name, result.error) };
+  }
+
+  /** Validate, then run. Handler errors come back as "Error: ..." results too. */
+  async execute(name: string, input: unknown, context: ToolContext = {}): Promise<string> {
+    const parsed = this.parse(name, input);
+    if (!parsed.success) return parsed.error;
+    const spec = this.specs.get(name)!;
+    const workspace = context.workspace ?? new Workspace();
+
+    try {
+      context.signal?.throwIfAborted();
+      return await spec.handler(parsed.input, { ...context, workspace });
+    } catch (error) {
+      // 💡 Structured, so the model knows exactly what to change on retry
+      if (error instanceof WorkspaceError) return `Error: ${JSON.stringify(error)}`;
+      return `Error: ${error instanceof Error ? error.message : 'Unknown error'}`;
+    }
+  }
+}
+
+/**
+ * ▶️ What the model gets back for `edit_file({ path: 3 })`:
+ *
+ *   Error: invalid input for edit_file — fix these and call it again:
+ *   - path: Expected string, received number
+ *   - edits: Required
+ */
+export function formatValidationError(name: string, error: z.ZodError): string {
+  const problems = error.issues.map(issue => `- ${issue.path.length > 0 ? issue.path.join('.') : '(input)'}: ${issue.message}`);
+  return `Error: invalid input for ${name} — fix these and call it again:\n${problems.join('\n')}`;
+}
+
+// ============================================
+// PART 3: PROVIDER FORMATS
+// ============================================
+
+function toInputSchema(schema: z.ZodTypeAny): Anthropic.Tool.InputSchema {
+  // WHY drop $schema: it's noise in every request, and some OpenAI-compatible servers reject it
+  const { $schema: _ignored, ...rest } = zodSchema(schema).jsonSchema as Record<string, unknown>;
+  return { ...rest, type: 'object' };
+}
+
+/** OpenAI chat completions: { type: "function", function: { name, description, parameters } } */
+export function toOpenAITools(tools: Anthropic.Tool[]): unknown[] {
+  return tools.map(t => ({
+    type: 'function',
+    function: { name: t.name, description: t.description, parameters: t.input_schema }
+  }));
+}
+
+/**
+ * AI SDK: tool() WITHOUT an execute function, so the SDK hands the calls
+ * back to our loop instead of running them itself.
+ */
+export function toAISDKTools(tools: Anthropic.Tool[]): Record<string, AISDKTool> {
+  return Object.fromEntries(tools.map(t => [
+    t.name,
+    tool({ description: t.description, parameters: jsonSchema(t.input_schema as object) })
+  ]));
+}
@@ -0,0 +1,380 @@
+/**
+ * 🎓 MODULE 5: The Interactive REPL
+ *
+ * `npm run demo:05 -- "task"` runs ONE task and exits. Real use is a
+ * conversation: ask, look at the result, correct course, ask again.
+ *
+ *   🤖 > add a --verbose flag to the CLI
+ *   ...agent works...
+ *   🤖 > /diff                 ← what did it change?
+ *   🤖 > also document it in the README
+ *   🤖 > /undo                 ← not like that
+ *
+ * 💡 KEY INSIGHT: The REPL needs no conversation state of its own. Every
+ * task after the first is a `--resume` of the same session, so a
+ * transcript on disk is the conversation — an interrupted iteration,
+ * a crash or a model switch all just continue from it.
+ *
+ * ▶️ RUN THIS: npm run repl:05
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as readline from 'readline/promises';
+import { fileURLToPath } from 'url';
+import { generateRepoMap, runAgent, type AgentConfig } from './demo.js';
+import { fallbackProviderFromEnv, providerFromEnv, type ModelProvider } from './providers.js';
+import { CheckpointStore, DEFAULT_CHECKPOINTS_DIR, printRestoreResult, unifiedDiff } from './checkpoints.js';
+import { Workspace } from './workspace.js';
+import { consoleSubscriber } from './events.js';
+import { McpHub, loadMcpConfig } from './mcp.js';
+import { ProcessManager } from './processes.js';
+import type { UsageReport } from './budget.js';
+import type { PermissionPrompt } from './permissions.js';
+
+export const DEFAULT_HISTORY_FILE = path.join('.agent', 'repl-history');
+const HISTORY_SIZE = 500;
+
+export interface ReplOptions {
+  /** Settings for every task; resume, signal and pinnedFiles are managed by the REPL */
+  config?: AgentConfig;
+  /** Where entered lines are kept between runs. `false` keeps no history. */
+  historyFile?: string | false;
+}
+
+const COMMANDS: Record<string, string> = {
+  '/undo': 'roll back the agent\'s last change',
+  '/diff': 'show what the agent changed in this conversation',
+  '/cost': 'tokens and cost of this conversation',
+  '/clear': 'start a new conversation',
+  '/model [id]': 'show or switch the model',
+  '/add <file>': 'pin a file — its current content goes with every request',
+  '/drop <file>': 'unpin a file',
+  '/map': 'show the repo map the agent sees',
+  '/help': 'show this list',
+  '/exit': 'quit (or Ctrl-D)'
+};
+
+// ============================================
+// PART 1: THE LOOP
+// ============================================
+
+/**
+ * 📺 SHOW THIS: Read a line. Slash command → handle it here. Anything
+ * else → a task for the agent, continuing the current session.
+ */
+export async function startRepl(options: ReplOptions = {}): Promise<void> {
+  const config = options.config ?? {};
+  const historyFile = options.historyFile ?? DEFAULT_HISTORY_FILE;
+  const workspace = new Workspace(config.workspace);
+  const checkpointsDir = config.checkpointsDir ?? DEFAULT_CHECKPOINTS_DIR;
+
+  let provider: ModelProvider = config.provider ?? providerFromEnv();
+  // 🔌 MCP servers start once for the whole REPL, not once per task
+  const print = consoleSubscriber();
+  const mcp = config.mcp && !(config.mcp instanceof McpHub)
+    ? await McpHub.start(config.mcp, status => print({ type: 'mcp-server', ...status }))
+    : config.mcp;
+  // ⚙️ Same for background processes: the dev server started in one task is still there in the next
+  const processes = config.processes === false || config.processes instanceof ProcessManager
+    ? config.processes
+    : new ProcessManager(workspace.root, config.processes);
+  let sessionId: string | null = null;
+  const pinned: string[] = [];
+  const usage: UsageReport[] = [];
+  // 💡 runAgent makes a PermissionManager per task — "always" answers live here, for the whole conversation
+  const alwaysAllowed = new Set<string>();
+  let running: AbortController | null = null;
+  let lastCtrlC = 0;
+
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output: process.stdout,
+    history: historyFile ? loadHistory(historyFile) : [],
+    historySize: HISTORY_SIZE,
+    completer: (line: string): [string[], string] => {
+      const names = Object.keys(COMMANDS).map(command => command.split(' ')[0]);
+      return [line.startsWith('/') ? names.filter(name => name.startsWith(line)) : [], line];
+    }
+  });
+
+  // 🔧 Lines typed while a task runs are queued, and become the next task
+  const typedAhead: string[] = [];
+  let waiting: ((line: string | null) => void) | null = null;
+  let ended = false;
+  rl.on('line', line => {
+    if (waiting) {
+      const resolve = waiting;
+      waiting = null;
+      resolve(line);
+    } else {
+      typedAhead.push(line);
+    }
+  });
+  rl.on('close', () => {
+    ended = true;
+    waiting?.(null);
+  });
+
+  /** The next line: queued first — unless `fresh`, for answers that must be typed after the question */
+  const ask = (query: string, options: { fresh?: boolean; signal?: AbortSignal } = {}) =>
+    new Promise<string | null>((resolve, reject) => {
+      if (!options.fresh && typedAhead.length > 0) return resolve(typedAhead.shift()!);
+      if (ended) return resolve(null);
+      rl.setPrompt(query);
+      rl.prompt();
+      const onAbort = () => {
+        waiting = null;
+        reject(options.signal!.reason);
+      };
+      // Answered → the listener goes, so a later abort can't reject a settled prompt
+      waiting = line => {
+        options.signal?.removeEventListener('abort', onAbort);
+        resolve(line);
+      };
+      options.signal?.addEventListener('abort', onAbort, { once: true });
+    });
+
+  // ⚠️ Ctrl-C during a task stops THAT task; the conversation carries on
+  rl.on('SIGINT', () => {
+    if (running) {
+      running.abort();
+      return;
+    }
+    if (rl.line) {
+      rl.write(null, { ctrl: true, name: 'u' });
+      return;
+    }
+    if (Date.now() - lastCtrlC < 2000) {
+      rl.close();
+      return;
+    }
+    lastCtrlC = Date.now();
+    process.stdout.write('\n(Ctrl-C again or /exit to quit)\n🤖 > ');
+  });
+
+  // 💡 Approval questions go through the REPL's own readline — a second one on stdin would fight it for keys
+  const prompt: PermissionPrompt = async question => {
+    const answer = ((await ask(`\n  ⚠️  ${question}  [y]es / [a]lways / [n]o: `, { fresh: true, signal: running?.signal })) ?? '')
+      .trim()
+      .toLowerCase();
+    if (answer === 'a' || answer === 'always') return 'always';
+    if (answer === 'y' || answer === 'yes') return 'yes';
+    return 'no';
+  };
+
+  const runTask = async (task: string) => {
+    const controller = new AbortController();
+    running = controller;
+    try {
+      const result = await runAgent(task, {
+        ...config,
+        provider,
+        mcp,
+        processes,
+        resume: sessionId ?? undefined,
+        pinnedFiles: [...pinned],
+        signal: controller.signal,
+        permissions: {
+          ...config.permissions,
+          prompt: config.permissions?.prompt !== undefined ? config.permissions.prompt : prompt,
+          alwaysAllowed
+        },
+        onEvent: event => {
+          if (event.type === 'agent-start') sessionId = event.sessionId;
+          if (event.type === 'finished') usage.push(event.usage);
+          config.onEvent?.(event);
+        }
+      });
+      console.log(`\n${result}\n`);
+    } catch (error) {
+      if (controller.signal.aborted) {
+        console.log('\n⏹️  Interrupted. The conversation is kept — type a follow-up, or /undo.\n');
+      } else {
+        console.log(`\n❌ ${error instanceof Error ? error.message : String(error)}\n`);
+      }
+    } finally {
+      running = null;
+    }
+  };
+
+  const handleCommand = (line: string): 'exit' | void => {
+    const [command, ...rest] = line.split(/\s+/);
+    const arg = rest.join(' ');
+    switch (command) {
+      case '/exit':
+      case '/quit':
+        return 'exit';
+      case '/help':
+        for (const [usage, description] of Object.entries(COMMANDS)) console.log(`  ${usage.padEnd(14)} ${description}`);
+        break;
+      case '/undo':
+      case '/diff': {
+        const store = sessionId ? openStore(sessionId, checkpointsDir) : null;
+        if (!store) console.log('No changes in this conversation yet');
+        else if (command === '/undo') printRestoreResult(store.undo());
+        else printChanges(store);
+        break;
+      }
+      case '/cost':
+        printCost(usage);
+        break;
+      case '/clear':
+        sessionId = null;
+        usage.length = 0;
+        alwaysAllowed.clear();
+        console.log('🧹 New conversation — the next task starts a fresh session' +
+          (pinned.length > 0 ? ` (still pinned: ${pinned.join(', ')})` : ''));
+        break;
+      case '/model':
+        if (arg) {
+          try {
+            // The transcript notes the switch; the conversation itself carries over
+            provider = providerFromEnv({ ...process.env, AGENT_MODEL: arg });
+          } catch (error) {
+            console.log(`❌ ${error instanceof Error ? error.message : String(error)}`);
+          }
+        }
+        console.log(`🧠 Model: ${provider.name}/${provider.model}`);
+        break;
+      case '/add':
+        if (!arg) {
+          console.log(pinned.length > 0 ? `📌 Pinned: ${pinned.join(', ')}` : 'Nothing pinned. Usage: /add <file>');
+        } else if (!pinned.includes(arg)) {
+          try {
+            if (!fs.statSync(workspace.resolve(arg, 'read')).isFile()) throw new Error(`${arg} is not a file`);
+            pinned.push(arg);
+            console.log(`📌 Pinned ${arg}`);
+          } catch (error) {
+            console.log(`❌ ${error instanceof Error ? error.message : String(error)}`);
+          }
+        }
+        break;
+      case '/drop':
+        if (pinned.includes(arg)) pinned.splice(pinned.indexOf(arg), 1);
+        console.log(pinned.length > 0 ? `📌 Pinned: ${pinned.join(', ')}` : '📌 Nothing pinned');
+        break;
+      case '/map':
+        console.log(generateRepoMap(workspace.root));
+        break;
+      default:
+        console.log(`Unknown command ${command} — /help lists them`);
+    }
+  };
+
+  console.log(`🤖 Coding agent REPL — ${provider.name}/${provider.model} in ${workspace.root}`);
+  console.log('   /help for commands, Ctrl-C stops the current task, Ctrl-D quits\n');
+
+  while (true) {
+    const line = await ask('🤖 > ');
+    if (line === null) break;
+    const input = line.trim();
+    if (!input) continue;
+    if (historyFile) saveHistory(historyFile, input);
+
+    if (input.startsWith('/')) {
+      if (handleCommand(input) === 'exit') break;
+    } else {
+      await runTask(input);
+    }
+  }
+  rl.close();
+  if (mcp !== config.mcp) mcp?.close();
+  if (processes && processes !== config.processes) await processes.close();
+}
+
+function openStore(sessionId: string, dir: string | false): CheckpointStore | null {
+  if (dir === false) return null;
+  try {
+    return CheckpointStore.open(sessionId, dir);
+  } catch {
+    return null;
+  }
+}
+
+// ============================================
+// PART 2: HISTORY
+// ============================================
+
+/** readline wants the newest line first */
+function loadHistory(file: string): string[] {
+  if (!fs.existsSync(file)) return [];
+  const lines = fs.readFileSync(file, 'utf-8').split('\n').filter(Boolean);
+  // Keep the file from growing forever
+  if (lines.length > HISTORY_SIZE * 2) fs.writeFileSync(file, lines.slice(-HISTORY_SIZE).join('\n') + '\n');
+  return lines.slice(-HISTORY_SIZE).reverse();
+}
+
+function saveHistory(file: string, line: string): void {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.appendFileSync(file, line.replace(/\n/g, ' ') + '\n');
+}
+
+// ============================================
+// PART 3: /diff AND /cost
+// ============================================
+
+function printChanges(store: CheckpointStore): void {
+  const changes = store.changes();
+  if (changes.length === 0) {
+    console.log('No changes in this conversation (or all of them were undone)');
+    return;
+  }
+  for (const change of changes) {
+    console.log(unifiedDiff(change.path, change.before, change.after));
+  }
+}
+
+/**
+ * ▶️ /cost:
+ *
+ *   💰 This conversation — 3 task(s), 11 model call(s)
+ *      Task 1    9,874 in    1,605 out   $0.0537
+ *      ...
+ */
+function printCost(reports: UsageReport[]): void {
+  if (reports.length === 0) {
+    console.log('💰 No finished tasks yet');
+    return;
+  }
+  const line = (label: string, input: number, output: number, cost: string) =>
+    `   ${label.padEnd(8)}${input.toLocaleString().padStart(10)} in ${output.toLocaleString().padStart(9)} out ${cost.padStart(10)}`;
+  const priced = (report: UsageReport) => report.totals.calls > report.totals.unpricedCalls;
+
+  const sum = (key: 'inputTokens' | 'outputTokens' | 'cacheReadTokens' | 'cacheWriteTokens' | 'costUsd' | 'calls') =>
+    reports.reduce((total, report) => total + report.totals[key], 0);
+  console.log(`💰 This conversation — ${reports.length} task(s), ${sum('calls')} model call(s)`);
+  reports.forEach((report, index) => console.log(line(
+    `Task ${index + 1}`,
+    report.totals.inputTokens + report.totals.cacheReadTokens + report.totals.cacheWriteTokens,
+    report.totals.outputTokens,
+    priced(report) ? `$${report.totals.costUsd.toFixed(4)}` : 'n/a'
+  )));
+  console.log(line(
+    'Total',
+    sum('inputTokens') + sum('cacheReadTokens') + sum('cacheWriteTokens'),
+    sum('outputTokens'),
+    reports.some(priced) ? `$${sum('costUsd').toFixed(4)}` : 'n/a'
+  ));
+}
+
+// ============================================
+// PART 4: MAIN
+// ============================================
+
+async function main() {
+  // Same switches as the one-shot demo
+  await startRepl({
+    config: {
+      git: process.argv.includes('--git'),
+      plan: process.argv.includes('--plan'),
+      verify: process.argv.includes('--verify'),
+      mcp: loadMcpConfig(),
+      retry: { fallback: fallbackProviderFromEnv() }
+    }
+  });
+}
+
+if (process.argv[1] === fileURLToPath(import.meta.url)) {
+  main().catch(console.error);
+}
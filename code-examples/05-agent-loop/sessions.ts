@@ -0,0 +1,365 @@
+/**
+ * 🎓 MODULE 5: Session Transcripts
+ *
+ * The `messages` array IS the agent's memory. If it only lives in RAM,
+ * a crash at iteration 12 of 15 throws all that work away — and nobody
+ * can look back at what the agent actually did.
+ *
+ * THE FIX: an append-only JSONL transcript.
+ * - One JSON object per line, written as things happen
+ * - Appending never rewrites earlier lines, so a crash loses at most
+ *   the line being written
+ * - Replaying the lines rebuilds `messages` exactly → resume
+ *
+ * Transcript layout:
+ *   {"type":"session_start", id, task, provider, model, ...}
+ *   {"type":"system", prompt}
+ *   {"type":"user", content}
+ *   {"type":"assistant", iteration, content, usage}
+ *   {"type":"tool_result", iteration, toolUseId, name, input, content}
+ *   {"type":"compaction", ...}   (informational — replay keeps the full history)
+ *   {"type":"verification", attempt, passed, results}
+ *   {"type":"delegation", childSessionId, ...}   (a sub-agent's run is its own file)
+ *   ...
+ *   {"type":"session_end", status, result}
+ *
+ * Resuming appends a {"type":"session_resume"} line to the SAME file,
+ * so one session is always one file.
+ */
+
+import Anthropic from '@anthropic-ai/sdk';
+import * as fs from 'fs';
+import * as path from 'path';
+import { randomBytes } from 'crypto';
+import type { AssistantBlock, ModelUsage } from './providers.js';
+import { Plan, type PlanItem } from './planning.js';
+import { formatFailure, type CheckResult } from './verify.js';
+
+export const DEFAULT_SESSIONS_DIR = path.join('.agent', 'sessions');
+
+// ============================================
+// PART 1: TRANSCRIPT ENTRIES
+// ============================================
+
+/** How a run ended. Anything but "completed" can be resumed as-is. */
+export type SessionStatus = 'completed' | 'max_iterations' | 'budget_exceeded' | 'verification_failed' | 'failed';
+
+export type TranscriptEntry =
+  | {
+      type: 'session_start';
+      timestamp: string;
+      sessionId: string;
+      task: string;
+      provider: string;
+      model: string;
+      cwd: string;
+      /** Set when this session is a sub-agent run by delegate_task */
+      parentSessionId?: string;
+    }
+  | { type: 'session_resume'; timestamp: string; provider: string; model: string }
+  | { type: 'system'; timestamp: string; prompt: string }
+  | { type: 'user'; timestamp: string; content: string }
+  | { type: 'assistant'; timestamp: string; iteration: number; content: AssistantBlock[]; usage: ModelUsage }
+  | {
+      type: 'tool_result';
+      timestamp: string;
+      iteration: number;
+      toolUseId: string;
+      name: string;
+      input: Record<string, unknown>;
+      content: string;
+    }
+  | {
+      type: 'compaction';
+      timestamp: string;
+      iteration: number;
+      staleReadsDropped: number;
+      messagesSummarized: number;
+      tokensBefore: number;
+      tokensAfter: number;
+    }
+  | { type: 'plan'; timestamp: string; iteration: number; items: PlanItem[]; dropped: PlanItem[] }
+  | { type: 'verification'; timestamp: string; iteration: number; attempt: number; passed: boolean; results: CheckResult[] }
+  | {
+      type: 'delegation';
+      timestamp: string;
+      iteration: number;
+      toolUseId: string;
+      childSessionId: string;
+      task: string;
+      status: SessionStatus;
+    }
+  | { type: 'session_end'; timestamp: string; status: SessionStatus; result: string };
+
+// Distributes Omit over the union so each entry keeps its own fields
+type DistributiveOmit<T, K extends keyof T> = T extends unknown ? Omit<T, K> : never;
+export type NewTranscriptEntry = DistributiveOmit<TranscriptEntry, 'timestamp'>;
+
+// ============================================
+// PART 2: WRITING
+// ============================================
+
+/**
+ * 📺 SHOW THIS: The whole persistence layer is one appendFileSync per event.
+ */
+export class SessionTranscript {
+  readonly filePath: string;
+
+  constructor(readonly sessionId: string, sessionsDir: string = DEFAULT_SESSIONS_DIR) {
+    fs.mkdirSync(sessionsDir, { recursive: true });
+    this.filePath = path.join(sessionsDir, `${sessionId}.jsonl`);
+  }
+
+  append(entry: NewTranscriptEntry): void {
+    const line = JSON.stringify({ ...entry, timestamp: new Date().toISOString() });
+    fs.appendFileSync(this.filePath, line + '\n');
+  }
+}
+
+/** Sortable, human-readable ids: 20250101-093000-a1b2c3 */
+export function newSessionId(now: Date = new Date()): string {
+  const stamp = now.toISOString().replace(/[-:]/g, '').replace('T', '-').slice(0, 15);
+  return `${stamp}-${randomBytes(3).toString('hex')}`;
+}
+
+// ============================================
+// PART 3: READING & RESUMING
+// ============================================
+
+export function readTranscript(
+  sessionId: string,
+  sessionsDir: string = DEFAULT_SESSIONS_DIR
+): TranscriptEntry[] {
+  const filePath = path.join(sessionsDir, `${sessionId}.jsonl`);
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`No session "${sessionId}" in ${sessionsDir}`);
+  }
+
+  const entries: TranscriptEntry[] = [];
+  for (const line of fs.readFileSync(filePath, 'utf-8').split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      entries.push(JSON.parse(line));
+    } catch {
+      // WHY: The process may have died mid-write. Skip the torn last line.
+    }
+  }
+  return entries;
+}
+
+export interface RestoredSession {
+  task: string;
+  systemPrompt: string;
+  messages: Anthropic.MessageParam[];
+  iteration: number;
+  finished: boolean;
+  /** The latest plan, if the session was planning */
+  plan: { items: PlanItem[]; dropped: PlanItem[] } | null;
+}
+
+/**
+ * 🔧 HOW IT WORKS: Replay the transcript into a `messages` array
+ *
+ * - user entries       → { role: 'user', content: text }
+ * - assistant entries  → { role: 'assistant', content: blocks }
+ * - tool_result entries following an assistant turn are grouped into
+ *   ONE user message, exactly as runAgent built it
+ *
+ * 💡 KEY INSIGHT: If we crashed between the assistant asking for tools and
+ * all results being written, some tool_use ids have no result. The API
+ * rejects that, so we fill the gaps with an "interrupted" error result.
+ */
+export function restoreSession(entries: TranscriptEntry[]): RestoredSession {
+  let task = '';
+  let systemPrompt = '';
+  let iteration = 0;
+  let finished = false;
+  let plan: RestoredSession['plan'] = null;
+  const messages: Anthropic.MessageParam[] = [];
+  let pendingToolUses: Anthropic.ToolUseBlockParam[] = [];
+  let pendingResults: Anthropic.ToolResultBlockParam[] = [];
+
+  const flushToolResults = () => {
+    if (pendingToolUses.length === 0) return;
+    const seen = new Set(pendingResults.map(r => r.tool_use_id));
+    for (const use of pendingToolUses) {
+      if (!seen.has(use.id)) {
+        pendingResults.push({
+          type: 'tool_result',
+          tool_use_id: use.id,
+          content: 'Error: tool execution was interrupted before a result was recorded',
+          is_error: true
+        });
+      }
+    }
+    // Keep results in the same order as the tool_use blocks
+    const order = new Map(pendingToolUses.map((use, i) => [use.id, i]));
+    pendingResults.sort((a, b) => (order.get(a.tool_use_id) ?? 0) - (order.get(b.tool_use_id) ?? 0));
+    messages.push({ role: 'user', content: pendingResults });
+    pendingToolUses = [];
+    pendingResults = [];
+  };
+
+  for (const entry of entries) {
+    switch (entry.type) {
+      case 'session_start':
+        task = entry.task;
+        break;
+      case 'session_resume':
+        finished = false;
+        break;
+      case 'system':
+        systemPrompt = entry.prompt;
+        break;
+      case 'user':
+        flushToolResults();
+        appendUserText(messages, entry.content);
+        finished = false;
+        break;
+      case 'assistant':
+        flushToolResults();
+        messages.push({ role: 'assistant', content: entry.content });
+        pendingToolUses = entry.content.filter(
+          (b): b is Anthropic.ToolUseBlockParam => b.type === 'tool_use'
+        );
+        iteration = entry.iteration;
+        break;
+      case 'tool_result':
+        pendingResults.push({ type: 'tool_result', tool_use_id: entry.toolUseId, content: entry.content });
+        break;
+      case 'plan':
+        plan = { items: entry.items, dropped: entry.dropped };
+        break;
+      case 'session_end':
+        finished = entry.status === 'completed';
+        break;
+    }
+  }
+  flushToolResults();
+
+  return { task, systemPrompt, messages, iteration, finished, plan };
+}
+
+// WHY: After tool results the last message is already a user turn —
+// add the text to it rather than sending two user turns in a row.
+export function appendUserText(messages: Anthropic.MessageParam[], text: string): void {
+  const last = messages[messages.length - 1];
+  if (last?.role === 'user' && Array.isArray(last.content)) {
+    last.content.push({ type: 'text', text });
+  } else {
+    messages.push({ role: 'user', content: text });
+  }
+}
+
+// ============================================
+// PART 4: BROWSING (sessions list / show)
+// ============================================
+
+export interface SessionSummary {
+  sessionId: string;
+  startedAt: string;
+  task: string;
+  model: string;
+  iterations: number;
+  status: string;
+  parentSessionId?: string;
+}
+
+export function listSessions(sessionsDir: string = DEFAULT_SESSIONS_DIR): SessionSummary[] {
+  if (!fs.existsSync(sessionsDir)) return [];
+
+  return fs.readdirSync(sessionsDir)
+    .filter(name => name.endsWith('.jsonl'))
+    .map(name => {
+      const sessionId = name.replace(/\.jsonl$/, '');
+      const entries = readTranscript(sessionId, sessionsDir);
+      const start = entries.find(e => e.type === 'session_start');
+      const end = [...entries].reverse().find(e => e.type === 'session_end');
+      const restored = restoreSession(entries);
+      return {
+        sessionId,
+        startedAt: start?.timestamp ?? '',
+        task: restored.task,
+        model: start && start.type === 'session_start' ? `${start.provider}/${start.model}` : '?',
+        iterations: restored.iteration,
+        status: end && end.type === 'session_end' ? end.status : 'interrupted',
+        ...(start && start.type === 'session_start' && start.parentSessionId
+          ? { parentSessionId: start.parentSessionId }
+          : {})
+      };
+    })
+    .sort((a, b) => a.sessionId.localeCompare(b.sessionId));
+}
+
+export function printSessionList(sessionsDir: string = DEFAULT_SESSIONS_DIR): void {
+  const sessions = listSessions(sessionsDir);
+  if (sessions.length === 0) {
+    console.log(`No sessions in ${sessionsDir}`);
+    return;
+  }
+  // Sub-agent sessions are listed under the session that delegated them
+  const ids = new Set(sessions.map(s => s.sessionId));
+  const children = (parentId: string) => sessions.filter(s => s.parentSessionId === parentId);
+  const print = (s: SessionSummary, depth: number) => {
+    const task = s.task.length > 50 ? s.task.substring(0, 50) + '...' : s.task;
+    const prefix = depth === 0 ? '' : '  '.repeat(depth - 1) + '↳ ';
+    console.log(`${prefix}${s.sessionId}  ${s.status.padEnd(19)} ${String(s.iterations).padStart(3)} iter  ${task}`);
+    for (const child of children(s.sessionId)) print(child, depth + 1);
+  };
+  for (const s of sessions) {
+    if (!s.parentSessionId || !ids.has(s.parentSessionId)) print(s, 0);
+  }
+}
+
+/**
+ * Pretty-print a transcript. Unlike the live console output,
+ * nothing is truncated — this is where you go to see what really happened.
+ */
+export function printSession(sessionId: string, sessionsDir: string = DEFAULT_SESSIONS_DIR): void {
+  for (const entry of readTranscript(sessionId, sessionsDir)) {
+    switch (entry.type) {
+      case 'session_start':
+        console.log(`🗂️  Session ${entry.sessionId} — ${entry.provider}/${entry.model} in ${entry.cwd}`);
+        if (entry.parentSessionId) console.log(`   Sub-agent of ${entry.parentSessionId}`);
+        break;
+      case 'session_resume':
+        console.log(`\n🔁 Resumed with ${entry.provider}/${entry.model}`);
+        break;
+      case 'system':
+        console.log(`\n⚙️  System prompt (${entry.prompt.length} chars)`);
+        break;
+      case 'user':
+        console.log(`\n👤 ${entry.content}`);
+        break;
+      case 'assistant':
+        console.log(`\n── Iteration ${entry.iteration} (${entry.usage.inputTokens} in / ${entry.usage.outputTokens} out) ──`);
+        for (const block of entry.content) {
+          if (block.type === 'text') console.log(`💭 ${block.text}`);
+          else console.log(`🔧 ${block.name}(${JSON.stringify(block.input)})`);
+        }
+        break;
+      case 'tool_result':
+        console.log(`📨 ${entry.name} →\n${entry.content}`);
+        break;
+      case 'compaction':
+        console.log(`\n🗜️  Context compacted: ~${entry.tokensBefore} → ~${entry.tokensAfter} tokens`);
+        break;
+      case 'plan':
+        console.log(`📋 Plan:\n${new Plan(entry.items).render()}`);
+        break;
+      case 'verification':
+        console.log(`\n🧪 Verification attempt ${entry.attempt}: ${entry.passed ? 'passed' : 'failed'}`);
+        for (const result of entry.results) {
+          console.log(`   ${result.passed ? '✅' : '❌'} ${result.kind} — ${result.command}`);
+          for (const failure of result.failures) console.log(`      ${formatFailure(failure)}`);
+        }
+        break;
+      case 'delegation':
+        console.log(`🤝 Sub-agent ${entry.childSessionId} (${entry.status}) — full run: sessions show ${entry.childSessionId}`);
+        break;
+      case 'session_end':
+        console.log(`\n🏁 ${entry.status}`);
+        break;
+    }
+  }
+}
@@ -0,0 +1,441 @@
+/**
+ * 🎓 MODULE 5: Tracing Agent Runs
+ *
+ * When a run goes wrong, the terminal shows 💭 thoughts cut at 200
+ * characters and tool inputs cut at 100. Which call took 40 seconds? What
+ * exactly did the model see before it deleted that file? Gone.
+ *
+ * THE FIX: record the run as SPANS — timed, nested units of work:
+ *
+ *   agent.session                     ████████████████████████████  48.2s
+ *     iteration 1                     ███████                       11.0s
+ *       chat claude-sonnet-4          █████                          8.9s
+ *       execute_tool read_file             █                         0.0s
+ *     iteration 2                            ███████████            19.4s
+ *       ...
+ *
+ * Each span keeps its full payload: the model's input and output, token
+ * counts, tool input and result, errors.
+ *
+ * 💡 KEY INSIGHT: The spans are written in OpenTelemetry's OTLP/JSON
+ * format, one export request per line. Our own viewer reads them, and so
+ * does anything that speaks OTel (a collector's otlpjsonfile receiver →
+ * Jaeger, Honeycomb, Grafana Tempo...).
+ *
+ * ▶️ RUN THIS:
+ *   npm run demo:05 -- trace                 # timeline of the latest run
+ *   npm run demo:05 -- trace <session> <span> # one span's full payload
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { randomBytes } from 'crypto';
+import type { AgentEvent, AgentEventListener } from './events.js';
+
+export const DEFAULT_TRACES_DIR = path.join('.agent', 'traces');
+const SERVICE_NAME = 'coding-agent';
+const SCOPE_NAME = '05-agent-loop';
+
+// ============================================
+// PART 1: THE OTLP/JSON FORMAT
+// ============================================
+
+type AttributeValue = string | number | boolean;
+
+interface OtlpAttribute {
+  key: string;
+  value: { stringValue: string } | { intValue: string } | { doubleValue: number } | { boolValue: boolean };
+}
+
+/** One span as OTLP/JSON has it — times in nanoseconds, as strings */
+interface OtlpSpan {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  /** 1 = internal, 3 = client (a call to another service — the model API) */
+  kind: 1 | 3;
+  startTimeUnixNano: string;
+  endTimeUnixNano: string;
+  attributes: OtlpAttribute[];
+  events: Array<{ timeUnixNano: string; name: string; attributes: OtlpAttribute[] }>;
+  /** 0 = unset, 1 = ok, 2 = error */
+  status: { code: 0 | 1 | 2; message?: string };
+}
+
+/** Objects are stored as JSON strings — OTel attributes are flat */
+function toAttributes(values: Record<string, unknown>): OtlpAttribute[] {
+  return Object.entries(values)
+    .filter(([, value]) => value !== undefined && value !== null)
+    .map(([key, value]) => ({
+      key,
+      value: typeof value === 'string' ? { stringValue: value }
+        : typeof value === 'boolean' ? { boolValue: value }
+        : typeof value === 'number' ? (Number.isInteger(value) ? { intValue: String(value) } : { doubleValue: value })
+        : { stringValue: JSON.stringify(value) }
+    }));
+}
+
+function fromAttributes(attributes: OtlpAttribute[] = []): Record<string, AttributeValue> {
+  return Object.fromEntries(attributes.map(({ key, value }) => [
+    key,
+    'stringValue' in value ? value.stringValue
+      : 'intValue' in value ? Number(value.intValue)
+      : 'doubleValue' in value ? value.doubleValue
+      : value.boolValue
+  ]));
+}
+
+/** WHY strings: nanoseconds since 1970 don't fit in a JS number exactly */
+const nanos = (ms: number) => `${Math.round(ms)}000000`;
+const millis = (nanoString: string) => Number(nanoString.slice(0, -6) || 0);
+
+// ============================================
+// PART 2: RECORDING
+// ============================================
+
+/** Where a sub-agent's spans go: the parent's file, under its delegate_task span */
+export interface TraceParent {
+  file: string;
+  traceId: string;
+  spanId: string;
+}
+
+interface OpenSpan {
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  kind: 1 | 3;
+  start: number;
+  attributes: Record<string, unknown>;
+  events: Array<{ time: number; name: string; attributes: Record<string, unknown> }>;
+}
+
+const newId = (bytes: number) => randomBytes(bytes).toString('hex');
+
+/**
+ * 📺 SHOW THIS: A subscriber like the others in events.ts — it turns the
+ * event stream into spans. Start events open a span, end events close it
+ * and write it to the file; everything else becomes a span EVENT on
+ * whatever is open (a retry on its model call, a checkpoint on its
+ * iteration).
+ */
+export class TraceRecorder {
+  readonly traceId: string;
+  readonly file: string;
+  private session: OpenSpan | null = null;
+  private readonly iterations = new Map<number, OpenSpan>();
+  private model: OpenSpan | null = null;
+  private verify: OpenSpan | null = null;
+  private readonly tools = new Map<string, OpenSpan>();
+
+  constructor(sessionId: string, dir: string = DEFAULT_TRACES_DIR, private readonly parent?: TraceParent) {
+    this.traceId = parent?.traceId ?? newId(16);
+    this.file = parent?.file ?? path.join(dir, `${sessionId}.jsonl`);
+    fs.mkdirSync(path.dirname(this.file), { recursive: true });
+  }
+
+  /** For a sub-agent started by this tool call */
+  childContext(toolUseId: string): TraceParent | undefined {
+    const span = this.tools.get(toolUseId);
+    return span ? { file: this.file, traceId: this.traceId, spanId: span.spanId } : undefined;
+  }
+
+  readonly listener: AgentEventListener = event => this.record(event);
+
+  record(event: AgentEvent): void {
+    const now = Date.now();
+    switch (event.type) {
+      case 'agent-start':
+        this.session = this.open('agent.session', this.parent?.spanId, {
+          'agent.session.id': event.sessionId,
+          'agent.task': event.task,
+          'agent.resumed': event.resumed,
+          'gen_ai.system': event.provider,
+          'gen_ai.request.model': event.model
+        });
+        break;
+      case 'iteration-start':
+        for (const iteration of this.iterations.keys()) this.closeIteration(iteration, now);
+        this.iterations.set(event.iteration, this.open(`iteration ${event.iteration}`, this.session?.spanId, {
+          'agent.iteration': event.iteration
+        }));
+        break;
+      case 'model-request':
+        this.model = this.open(`chat ${event.model}`, this.current(event.iteration)?.spanId, {
+          'gen_ai.operation.name': 'chat',
+          'gen_ai.request.model': event.model,
+          'agent.request.messages': event.messages,
+          'agent.request.tools': event.tools,
+          'agent.request.input': event.input
+        }, 3);
+        break;
+      case 'model-response':
+        if (!this.model) break;
+        this.end(this.model, now, { code: 1 }, {
+          'gen_ai.response.model': event.model,
+          'gen_ai.response.finish_reasons': [event.stopReason],
+          'gen_ai.usage.input_tokens': event.usage.inputTokens,
+          'gen_ai.usage.output_tokens': event.usage.outputTokens,
+          'agent.usage.cache_read_tokens': event.usage.cacheReadTokens ?? 0,
+          'agent.usage.cache_write_tokens': event.usage.cacheWriteTokens ?? 0,
+          'agent.response.content': event.content
+        });
+        this.model = null;
+        break;
+      case 'model-retry':
+      case 'model-fallback': {
+        const { type, ...details } = event;
+        this.addEvent(this.model ?? this.current(event.iteration), type, details, now);
+        break;
+      }
+      case 'tool-call':
+        this.tools.set(event.id, this.open(`execute_tool ${event.name}`, this.current(event.iteration)?.spanId, {
+          'gen_ai.operation.name': 'execute_tool',
+          'gen_ai.tool.name': event.name,
+          'gen_ai.tool.call.id': event.id,
+          'agent.tool.input': event.input
+        }));
+        break;
+      case 'tool-result': {
+        const span = this.tools.get(event.id);
+        if (!span) break;
+        // WHY from durationMs: between tool-call and the run there may be a permission prompt
+        span.start = now - event.durationMs;
+        const failed = event.denied ?? (event.result.startsWith('Error:') ? event.result.split('\n')[0] : undefined);
+        this.end(span, now, failed ? { code: 2, message: failed } : { code: 1 }, {
+          'agent.tool.output': event.result,
+          'agent.tool.denied': event.denied
+        });
+        break;
+      }
+      case 'verify-start':
+        this.verify = this.open('agent.verify', this.current(event.iteration)?.spanId, {
+          'agent.verify.attempt': event.attempt,
+          'agent.verify.checks': event.checks
+        });
+        break;
+      case 'verify-result':
+        if (!this.verify) break;
+        this.end(this.verify, now, event.passed ? { code: 1 } : { code: 2, message: 'checks failed' }, {
+          'agent.verify.results': event.results
+        });
+        this.verify = null;
+        break;
+      case 'error': {
+        // A failed model call ends its span; anything else is noted on the iteration
+        if (this.model) {
+          this.end(this.model, now, { code: 2, message: event.message }, {});
+          this.model = null;
+        } else {
+          this.addEvent(this.current(event.iteration), 'exception', { 'exception.message': event.message }, now);
+        }
+        break;
+      }
+      case 'finished':
+        for (const iteration of this.iterations.keys()) this.closeIteration(iteration, now);
+        if (this.session) {
+          const failed = event.status === 'failed' || event.status === 'verification_failed';
+          this.end(this.session, now, failed ? { code: 2, message: event.status } : { code: 1 }, {
+            'agent.status': event.status,
+            'agent.result': event.result,
+            'agent.iterations': event.iterations,
+            'agent.usage': event.usage.totals
+          });
+          this.session = null;
+        }
+        break;
+      case 'assistant-text-delta':
+      case 'usage':
+        // Already in model-response, whole
+        break;
+      default: {
+        const { type, ...details } = event;
+        const iteration = 'iteration' in event ? this.current(event.iteration) : undefined;
+        this.addEvent(iteration ?? this.session, type, details, now);
+      }
+    }
+  }
+
+  /**
+   * Close whatever is still open — a run that threw never sends
+   * "finished" (its "error" event is on the iteration). Called from
+   * runAgent's finally.
+   */
+  close(): void {
+    const now = Date.now();
+    const status = { code: 2 as const, message: 'the run ended without finishing' };
+    for (const span of [this.model, this.verify, ...this.tools.values()]) if (span) this.end(span, now, status, {});
+    for (const iteration of this.iterations.keys()) this.closeIteration(iteration, now);
+    if (this.session) this.end(this.session, now, status, {});
+    this.model = this.verify = this.session = null;
+  }
+
+  private open(name: string, parentSpanId: string | undefined, attributes: Record<string, unknown>, kind: 1 | 3 = 1): OpenSpan {
+    return { spanId: newId(8), parentSpanId, name, kind, start: Date.now(), attributes, events: [] };
+  }
+
+  /** Finish a span and append it to the file — spans are written as they end, so a crash loses little */
+  private end(span: OpenSpan, end: number, status: OtlpSpan['status'], attributes: Record<string, unknown>): void {
+    for (const [id, tool] of this.tools) if (tool === span) this.tools.delete(id);
+    const otlp: OtlpSpan = {
+      traceId: this.traceId,
+      spanId: span.spanId,
+      ...(span.parentSpanId ? { parentSpanId: span.parentSpanId } : {}),
+      name: span.name,
+      kind: span.kind,
+      startTimeUnixNano: nanos(span.start),
+      endTimeUnixNano: nanos(end),
+      attributes: toAttributes({ ...span.attributes, ...attributes }),
+      events: span.events.map(event => ({ timeUnixNano: nanos(event.time), name: event.name, attributes: toAttributes(event.attributes) })),
+      status
+    };
+    const line = { resourceSpans: [{ resource: { attributes: toAttributes({ 'service.name': SERVICE_NAME }) }, scopeSpans: [{ scope: { name: SCOPE_NAME }, spans: [otlp] }] }] };
+    fs.appendFileSync(this.file, JSON.stringify(line) + '\n');
+  }
+
+  private current(iteration: number): OpenSpan | undefined {
+    return this.iterations.get(iteration);
+  }
+
+  private closeIteration(iteration: number, end: number): void {
+    const span = this.iterations.get(iteration);
+    this.iterations.delete(iteration);
+    if (span) this.end(span, end, { code: 0 }, {});
+  }
+
+  private addEvent(span: OpenSpan | null | undefined, name: string, attributes: Record<string, unknown>, time: number): void {
+    span?.events.push({ time, name, attributes });
+  }
+}
+
+// ============================================
+// PART 3: THE VIEWER
+// ============================================
+
+export interface TraceSpan {
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  start: number;
+  end: number;
+  attributes: Record<string, AttributeValue>;
+  events: Array<{ time: number; name: string; attributes: Record<string, AttributeValue> }>;
+  status: OtlpSpan['status'];
+}
+
+/** Session ids sort by time, like checkpoints — the last one is the latest run */
+export function latestTrace(dir: string = DEFAULT_TRACES_DIR): string | null {
+  if (!fs.existsSync(dir)) return null;
+  const sessions = fs.readdirSync(dir)
+    .filter(name => name.endsWith('.jsonl'))
+    .map(name => name.replace(/\.jsonl$/, ''))
+    .sort();
+  return sessions.length > 0 ? sessions[sessions.length - 1] : null;
+}
+
+/** Every span of a session's trace, sub-agents included, in start order */
+export function readTrace(sessionId: string, dir: string = DEFAULT_TRACES_DIR): TraceSpan[] {
+  const file = path.join(dir, `${sessionId}.jsonl`);
+  if (!fs.existsSync(file)) throw new Error(`No trace for session ${sessionId}`);
+  const spans: TraceSpan[] = [];
+  for (const line of fs.readFileSync(file, 'utf-8').split('\n')) {
+    if (!line.trim()) continue;
+    const request = JSON.parse(line) as { resourceSpans: Array<{ scopeSpans: Array<{ spans: OtlpSpan[] }> }> };
+    for (const span of request.resourceSpans.flatMap(r => r.scopeSpans).flatMap(s => s.spans)) {
+      spans.push({
+        spanId: span.spanId,
+        parentSpanId: span.parentSpanId,
+        name: span.name,
+        start: millis(span.startTimeUnixNano),
+        end: millis(span.endTimeUnixNano),
+        attributes: fromAttributes(span.attributes),
+        events: (span.events ?? []).map(event => ({ time: millis(event.timeUnixNano), name: event.name, attributes: fromAttributes(event.attributes) })),
+        status: span.status ?? { code: 0 }
+      });
+    }
+  }
+  return spans.sort((a, b) => a.start - b.start);
+}
+
+const BAR_WIDTH = 40;
+const NAME_WIDTH = 36;
+/** Enough of the id to find the span again: trace <session> <id> */
+const shortId = (spanId: string) => spanId.slice(0, 6);
+const seconds = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+
+/**
+ * 📺 SHOW THIS: Children under their parent, each bar placed where the
+ * span ran on the session's clock:
+ *
+ *   3f9a0c  agent.session                  ████████████████████████████████████████  12.4s  5,210 tok
+ *   b81e44    iteration 1                  ██████████████                             4.3s
+ *   0c77d2      chat claude-sonnet-4       ████████████                               3.9s  1,804 tok
+ *   e5a913      execute_tool run_command               ██                            0.4s  ✗ Error: exit code 1
+ */
+export function printTraceTimeline(sessionId: string, dir: string = DEFAULT_TRACES_DIR): void {
+  const spans = readTrace(sessionId, dir);
+  if (spans.length === 0) {
+    console.log(`Trace ${sessionId} has no spans yet`);
+    return;
+  }
+  const ids = new Set(spans.map(span => span.spanId));
+  const children = new Map<string | undefined, TraceSpan[]>();
+  for (const span of spans) {
+    // A root, or a span whose parent never ended (the process died) — shown at the top level
+    const parent = span.parentSpanId && ids.has(span.parentSpanId) ? span.parentSpanId : undefined;
+    children.set(parent, [...(children.get(parent) ?? []), span]);
+  }
+
+  const first = Math.min(...spans.map(span => span.start));
+  const total = Math.max(1, Math.max(...spans.map(span => span.end)) - first);
+  console.log(`🔭 Trace ${sessionId} — ${spans.length} spans, ${seconds(total)}\n`);
+
+  const print = (span: TraceSpan, depth: number) => {
+    const from = Math.floor(((span.start - first) / total) * BAR_WIDTH);
+    const width = Math.max(1, Math.round(((span.end - span.start) / total) * BAR_WIDTH));
+    const bar = (' '.repeat(from) + '█'.repeat(width)).slice(0, BAR_WIDTH).padEnd(BAR_WIDTH);
+    const name = ('  '.repeat(depth) + span.name).slice(0, NAME_WIDTH).padEnd(NAME_WIDTH);
+    const tokens = Number(span.attributes['gen_ai.usage.input_tokens'] ?? 0) + Number(span.attributes['gen_ai.usage.output_tokens'] ?? 0);
+    const notes = [
+      tokens > 0 ? `${tokens.toLocaleString('en-US')} tok` : '',
+      span.status.code === 2 ? `✗ ${(span.status.message ?? 'error').split('\n')[0].slice(0, 60)}` : ''
+    ].filter(Boolean).join('  ');
+    console.log(`${shortId(span.spanId)}  ${name} ${bar} ${seconds(span.end - span.start).padStart(6)}  ${notes}`.trimEnd());
+    for (const child of children.get(span.spanId) ?? []) print(child, depth + 1);
+  };
+  for (const root of children.get(undefined) ?? []) print(root, 0);
+
+  console.log(`\nFull payload of a span: trace ${sessionId} <span-id>`);
+}
+
+/** Everything recorded on one span, found by (a prefix of) its id */
+export function printSpan(sessionId: string, spanId: string, dir: string = DEFAULT_TRACES_DIR): void {
+  const matches = readTrace(sessionId, dir).filter(span => span.spanId.startsWith(spanId));
+  if (matches.length === 0) throw new Error(`No span ${spanId} in trace ${sessionId}`);
+  if (matches.length > 1) throw new Error(`Span id ${spanId} is ambiguous — ${matches.map(span => span.spanId).join(', ')}`);
+  const [span] = matches;
+
+  const status = span.status.code === 2 ? `❌ ${span.status.message ?? 'error'}` : span.status.code === 1 ? '✅ ok' : 'unset';
+  console.log(`🔭 ${span.name}  (span ${span.spanId}${span.parentSpanId ? `, parent ${span.parentSpanId}` : ''})`);
+  console.log(`   ${new Date(span.start).toISOString()} · ${seconds(span.end - span.start)} · ${status}`);
+
+  for (const [key, value] of Object.entries(span.attributes)) {
+    console.log(`\n── ${key}`);
+    console.log(prettyValue(value));
+  }
+  for (const event of span.events) {
+    console.log(`\n⚡ +${seconds(event.time - span.start)} ${event.name}`);
+    for (const [key, value] of Object.entries(event.attributes)) console.log(`   ${key}: ${prettyValue(value)}`);
+  }
+}
+
+/** Attributes that were objects come back as JSON strings — indent them again */
+function prettyValue(value: AttributeValue): string {
+  if (typeof value !== 'string' || !/^[[{]/.test(value)) return String(value);
+  try {
+    return JSON.stringify(JSON.parse(value), null, 2);
+  } catch {
+    return value;
+  }
+}
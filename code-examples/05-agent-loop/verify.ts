@@ -0,0 +1,301 @@
+/**
+ * 🎓 MODULE 5: Verify, Then Fix — Closing the Loop
+ *
+ * The system prompt says "run tests if available". Models often don't,
+ * or run them once, see red, and declare victory anyway.
+ *
+ * THE FIX: the LOOP runs the checks, not the model.
+ *
+ *   model says "done" ──► typecheck → lint → test
+ *                            │ all green → finish ✅
+ *                            └ red → compact failures become the next
+ *                                    user message → model keeps fixing
+ *                                    (until a retry limit, then ❌)
+ *
+ * 💡 KEY INSIGHT: 400 lines of test output is a bad prompt. One line per
+ * failure — file:line and the message — is what the model needs to fix it.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { exec } from 'child_process';
+import { promisify } from 'util';
+
+const execAsync = promisify(exec);
+
+// ============================================
+// PART 1: WHAT TO RUN
+// ============================================
+
+export type CheckKind = 'typecheck' | 'lint' | 'test';
+
+export interface VerifyCheck {
+  kind: CheckKind;
+  command: string;
+}
+
+export interface VerifyOptions {
+  /** Commands to run; detected from the project files when left out */
+  checks?: VerifyCheck[];
+  /** Verification runs before giving up (default 3) */
+  maxAttempts?: number;
+  /** Per command (default 5 minutes) */
+  timeoutMs?: number;
+}
+
+// Cheapest first: a type error usually explains the failing test too
+const ORDER: CheckKind[] = ['typecheck', 'lint', 'test'];
+
+const TYPECHECK_SCRIPTS = ['typecheck', 'type-check', 'check-types', 'tsc'];
+
+// What `npm init` puts in package.json — not a real test suite
+const PLACEHOLDER_TEST = /no test specified/;
+
+/**
+ * 📺 SHOW THIS: Look at the project the way a new contributor would.
+ *
+ *   package.json scripts   → npm test, npm run typecheck, npm run lint
+ *   tsconfig.json          → npx tsc --noEmit   (when there's no script)
+ *   eslint config          → npx eslint .       (when there's no script)
+ *   pyproject / pytest.ini → pytest, mypy, ruff
+ *   go.mod / Cargo.toml    → go vet + go test, cargo check + cargo test
+ */
+export function detectChecks(root: string): VerifyCheck[] {
+  const has = (file: string) => fs.existsSync(path.join(root, file));
+  const read = (file: string) => (has(file) ? fs.readFileSync(path.join(root, file), 'utf-8') : '');
+  const checks = new Map<CheckKind, string>();
+  const add = (kind: CheckKind, command: string) => {
+    if (!checks.has(kind)) checks.set(kind, command);
+  };
+
+  if (has('package.json')) {
+    const pkg = JSON.parse(read('package.json')) as {
+      scripts?: Record<string, string>;
+      dependencies?: Record<string, string>;
+      devDependencies?: Record<string, string>;
+    };
+    const scripts = pkg.scripts ?? {};
+    const deps = { ...pkg.dependencies, ...pkg.devDependencies };
+    const pm = has('pnpm-lock.yaml') ? 'pnpm' : has('yarn.lock') ? 'yarn' : has('bun.lockb') || has('bun.lock') ? 'bun' : 'npm';
+    const run = (script: string) => (pm === 'npm' && script === 'test' ? 'npm test' : `${pm} run ${script}`);
+
+    const typecheck = TYPECHECK_SCRIPTS.find(name => scripts[name]);
+    if (typecheck) add('typecheck', run(typecheck));
+    else if (has('tsconfig.json') && deps.typescript) add('typecheck', 'npx tsc --noEmit');
+
+    if (scripts.lint) add('lint', run('lint'));
+    else if (deps.eslint && fs.readdirSync(root).some(name => /^(eslint\.config\.\w+|\.eslintrc(\.\w+)?)$/.test(name))) {
+      add('lint', 'npx eslint .');
+    }
+
+    if (scripts.test && !PLACEHOLDER_TEST.test(scripts.test)) add('test', run('test'));
+  }
+
+  const pyproject = read('pyproject.toml');
+  if (pyproject || has('pytest.ini') || has('setup.py')) {
+    if (/\[tool\.mypy\]/.test(pyproject) || has('mypy.ini')) add('typecheck', 'python -m mypy .');
+    if (/\[tool\.ruff/.test(pyproject) || has('ruff.toml')) add('lint', 'ruff check .');
+    if (/\[tool\.pytest/.test(pyproject) || has('pytest.ini') || has('tests')) add('test', 'python -m pytest -q');
+  }
+
+  if (has('go.mod')) {
+    add('typecheck', 'go vet ./...');
+    add('test', 'go test ./...');
+  }
+
+  if (has('Cargo.toml')) {
+    add('typecheck', 'cargo check --quiet');
+    add('test', 'cargo test --quiet');
+  }
+
+  return ORDER.filter(kind => checks.has(kind)).map(kind => ({ kind, command: checks.get(kind)! }));
+}
+
+// ============================================
+// PART 2: RUNNING THE CHECKS
+// ============================================
+
+export interface Failure {
+  file?: string;
+  line?: number;
+  column?: number;
+  message: string;
+}
+
+export interface CheckResult extends VerifyCheck {
+  passed: boolean;
+  exitCode: number | null;
+  durationMs: number;
+  failures: Failure[];
+  /** The end of the output — what the model sees when nothing could be parsed */
+  tail: string;
+}
+
+export async function runChecks(
+  checks: VerifyCheck[],
+  root: string,
+  options: { timeoutMs?: number; signal?: AbortSignal } = {}
+): Promise<CheckResult[]> {
+  const results: CheckResult[] = [];
+  for (const check of checks) {
+    const started = Date.now();
+    let output: string;
+    let exitCode: number | null = 0;
+    try {
+      const { stdout, stderr } = await execAsync(check.command, {
+        cwd: root,
+        encoding: 'utf-8',
+        maxBuffer: 10 * 1024 * 1024,
+        timeout: options.timeoutMs ?? 5 * 60_000,
+        signal: options.signal,
+        // ⚠️ CI=true: jest and vitest would otherwise start in watch mode and never exit
+        env: { ...process.env, CI: 'true', FORCE_COLOR: '0' }
+      });
+      output = `${stdout}\n${stderr}`;
+    } catch (error) {
+      options.signal?.throwIfAborted();
+      const failed = error as { stdout?: string; stderr?: string; code?: number | string; killed?: boolean; message: string };
+      output = `${failed.stdout ?? ''}\n${failed.stderr ?? ''}`;
+      if (failed.killed) output += `\n(killed after ${Math.round((options.timeoutMs ?? 5 * 60_000) / 1000)}s)`;
+      else if (!output.trim()) output = failed.message;
+      exitCode = typeof failed.code === 'number' ? failed.code : null;
+    }
+    const passed = exitCode === 0;
+    results.push({
+      ...check,
+      passed,
+      exitCode,
+      durationMs: Date.now() - started,
+      failures: passed ? [] : parseFailures(output, root),
+      tail: passed ? '' : tailOf(output)
+    });
+  }
+  return results;
+}
+
+function tailOf(output: string, lines = 30, chars = 2000): string {
+  const tail = output.trim().split('\n').slice(-lines).join('\n');
+  return tail.length > chars ? '...' + tail.slice(-chars) : tail;
+}
+
+// ============================================
+// PART 3: PARSING FAILURES
+// ============================================
+
+/**
+ * 🔧 HOW IT WORKS: One pass over the output lines. Most tools print one
+ * line per problem; a few print the location on a LATER line, so those
+ * keep a little state:
+ *
+ *   tsc        src/a.ts(3,7): error TS2322: Type 'string' is not ...
+ *   gcc-style  src/a.go:3:7: undefined: foo        (go, ruff, mypy, pytest)
+ *   eslint     /abs/src/a.ts                       ← file header
+ *                3:7  error  'x' is unused  no-unused-vars
+ *   rustc      error[E0425]: cannot find value `x` ← message
+ *                --> src/main.rs:3:7               ← location
+ *   jest       ● math › adds                       ← test name
+ *                at Object.<anonymous> (src/math.test.ts:5:17)
+ *   pytest     FAILED tests/test_a.py::test_add - assert 1 == 2
+ */
+export function parseFailures(output: string, root: string): Failure[] {
+  const failures: Failure[] = [];
+  const seen = new Set<string>();
+  const push = (failure: Failure) => {
+    if (failure.file) {
+      failure.file = path.isAbsolute(failure.file) ? path.relative(root, failure.file) : failure.file.replace(/^\.\//, '');
+    }
+    const key = `${failure.file}:${failure.line}:${failure.message}`;
+    if (!seen.has(key)) {
+      seen.add(key);
+      failures.push(failure);
+    }
+  };
+
+  let eslintFile: string | null = null;
+  let pending: { message: string; kind: 'rust' | 'test' } | null = null;
+
+  for (const raw of output.split('\n')) {
+    const line = raw.replace(/\x1b\[[0-9;]*m/g, '').trimEnd();
+    let match: RegExpMatchArray | null;
+
+    if ((match = line.match(/^(.+?)\((\d+),(\d+)\): error (TS\d+): (.*)$/)) ||
+        (match = line.match(/^(.+?):(\d+):(\d+) - error (TS\d+): (.*)$/))) {
+      push({ file: match[1], line: Number(match[2]), column: Number(match[3]), message: `${match[4]}: ${match[5]}` });
+    } else if ((match = line.match(/^FAILED (\S+?)::(\S+)(?: - (.*))?$/))) {
+      push({ file: match[1], message: `${match[2]}${match[3] ? `: ${match[3]}` : ''}` });
+    } else if ((match = line.match(/^(error|warning)(\[\w+\])?: (.*)$/))) {
+      // Only errors: a wall of warnings would bury what actually fails
+      pending = match[1] === 'error' ? { message: match[3], kind: 'rust' } : null;
+    } else if (pending?.kind === 'rust' && (match = line.match(/^\s*--> (.+?):(\d+):(\d+)$/))) {
+      push({ file: match[1], line: Number(match[2]), column: Number(match[3]), message: pending.message });
+      pending = null;
+    } else if ((match = line.match(/^\s*● (.+)$/))) {
+      pending = { message: match[1], kind: 'test' };
+    } else if (pending?.kind === 'test' && (match = line.match(/\(?((?:\/|\.{0,2}\/?)[^\s():]+\.\w+):(\d+):(\d+)\)?$/)) &&
+               !match[1].includes('node_modules')) {
+      push({ file: match[1], line: Number(match[2]), column: Number(match[3]), message: pending.message });
+      pending = null;
+    } else if ((match = line.match(/^([\w./\\-][^\s:]*\.\w+):(\d+)(?::(\d+))?:? (.+)$/))) {
+      push({ file: match[1], line: Number(match[2]), column: match[3] ? Number(match[3]) : undefined, message: match[4].trim() });
+    } else if ((match = line.match(/^\s+(\d+):(\d+)\s+error\s+(.+?)(?:\s{2,}([\w@/-]+))?$/)) && eslintFile) {
+      push({ file: eslintFile, line: Number(match[1]), column: Number(match[2]), message: match[4] ? `${match[3]} (${match[4]})` : match[3] });
+    } else if (/^(\/|[A-Za-z]:\\)\S+\.\w+$/.test(line)) {
+      eslintFile = line;
+    }
+  }
+  return failures;
+}
+
+// ============================================
+// PART 4: FEEDBACK FOR THE MODEL
+// ============================================
+
+const MAX_FAILURES_SHOWN = 15;
+
+/**
+ * ▶️ The user message the model gets when a check fails:
+ *
+ *   Verification failed (attempt 1 of 3). Fix these problems, then finish again.
+ *
+ *   ❌ typecheck — npx tsc --noEmit (2 problems)
+ *   src/auth.ts:42:7 TS2322: Type 'string' is not assignable to type 'number'.
+ *   src/auth.ts:58:3 TS2554: Expected 2 arguments, but got 1.
+ *   ✅ lint — npm run lint
+ *   ❌ test — npm test (exit code 1)
+ *   <last lines of output>
+ */
+export function formatFeedback(results: CheckResult[], attempt: number, maxAttempts: number): string {
+  const lines = [`Verification failed (attempt ${attempt} of ${maxAttempts}). Fix these problems, then finish again.`, ''];
+  for (const result of results) {
+    if (result.passed) {
+      lines.push(`✅ ${result.kind} — ${result.command}`);
+      continue;
+    }
+    if (result.failures.length === 0) {
+      lines.push(`❌ ${result.kind} — ${result.command} (exit code ${result.exitCode ?? 'none'})`, result.tail);
+      continue;
+    }
+    const count = result.failures.length;
+    lines.push(`❌ ${result.kind} — ${result.command} (${count} problem${count === 1 ? '' : 's'})`);
+    lines.push(...result.failures.slice(0, MAX_FAILURES_SHOWN).map(formatFailure));
+    if (count > MAX_FAILURES_SHOWN) lines.push(`...and ${count - MAX_FAILURES_SHOWN} more`);
+  }
+  return lines.join('\n');
+}
+
+export function formatFailure(failure: Failure): string {
+  const location = failure.file
+    ? `${failure.file}${failure.line ? `:${failure.line}` : ''}${failure.column ? `:${failure.column}` : ''} `
+    : '';
+  return `${location}${failure.message}`;
+}
+
+/** One line for the final result: "✅ Verified: typecheck, test" */
+export function verificationSummary(results: CheckResult[], attempts: number): string {
+  const failed = results.filter(result => !result.passed);
+  if (failed.length === 0) return `✅ Verified: ${results.map(result => result.kind).join(', ')} passed`;
+  return `❌ Verification failed after ${attempts} attempt${attempts === 1 ? '' : 's'}: ` +
+    failed.map(result => `${result.kind} (${result.failures.length > 0
+      ? `${result.failures.length} problem${result.failures.length === 1 ? '' : 's'}`
+      : `exit code ${result.exitCode ?? 'none'}`})`).join(', ');
+}
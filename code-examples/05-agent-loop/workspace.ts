@@ -0,0 +1,136 @@
+/**
+ * 🎓 MODULE 5: The Workspace Jail
+ *
+ * File tools take a path from the MODEL. Without a check, all of these work:
+ *
+ *   read_file("../../etc/passwd")        ← walks out with ..
+ *   read_file("/home/me/.ssh/id_rsa")    ← absolute path
+ *   read_file("docs/link")               ← symlink to /etc
+ *   write_file("/tmp/x/y/z", ...)        ← mkdir anywhere
+ *
+ * THE FIX: every file tool resolves its path through ONE function that
+ * knows the workspace root, and refuses anything that lands outside it.
+ *
+ * 💡 KEY INSIGHT: Checking the string isn't enough — a symlink inside the
+ * project can point anywhere. We check the REAL path (fs.realpathSync).
+ * For files that don't exist yet, we resolve the nearest existing parent
+ * directory, so a symlinked directory can't smuggle a new file out either.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+// ============================================
+// PART 1: ERRORS THE MODEL CAN ACT ON
+// ============================================
+
+export type WorkspaceErrorCode = 'outside_workspace' | 'read_only';
+
+/**
+ * Thrown by Workspace.resolve(). The tool registry turns it into a JSON
+ * result, so the model sees WHAT went wrong and HOW to fix it.
+ */
+export class WorkspaceError extends Error {
+  constructor(
+    readonly code: WorkspaceErrorCode,
+    readonly requestedPath: string,
+    readonly hint: string
+  ) {
+    super(`${code}: ${requestedPath}`);
+    this.name = 'WorkspaceError';
+  }
+
+  toJSON() {
+    return { error: this.code, path: this.requestedPath, hint: this.hint };
+  }
+}
+
+// ============================================
+// PART 2: RESOLVING PATHS
+// ============================================
+
+export interface WorkspaceOptions {
+  /** The project directory; every write must stay inside it (default: cwd) */
+  root?: string;
+  /** Extra directories the agent may READ but never write (e.g. shared docs) */
+  readOnlyRoots?: string[];
+}
+
+export class Workspace {
+  readonly root: string;
+  private readonly realRoot: string;
+  private readonly realReadOnlyRoots: string[];
+
+  constructor(options: WorkspaceOptions = {}) {
+    this.root = path.resolve(options.root ?? '.');
+    this.realRoot = fs.realpathSync(this.root);
+    this.realReadOnlyRoots = (options.readOnlyRoots ?? []).map(r => fs.realpathSync(path.resolve(r)));
+  }
+
+  /**
+   * 📺 SHOW THIS: The one gate every file tool goes through.
+   *
+   * 1. Resolve relative paths against the workspace root (not the cwd)
+   * 2. Follow symlinks to the real location
+   * 3. Reads may land in the root or a read-only root; writes only in the root
+   */
+  resolve(requestedPath: string, mode: 'read' | 'write'): string {
+    const absolute = path.resolve(this.root, requestedPath);
+    const real = realPathOf(absolute);
+
+    if (isInside(real, this.realRoot)) return absolute;
+
+    if (this.realReadOnlyRoots.some(r => isInside(real, r))) {
+      if (mode === 'read') return absolute;
+      throw new WorkspaceError(
+        'read_only',
+        requestedPath,
+        'This directory is available for reading only. Write inside the workspace instead.'
+      );
+    }
+
+    throw new WorkspaceError(
+      'outside_workspace',
+      requestedPath,
+      `Paths must stay inside the workspace (${this.root}). Use a path relative to it, without "..".`
+    );
+  }
+}
+
+function isInside(child: string, parent: string): boolean {
+  const relative = path.relative(parent, child);
+  return relative === '' || (relative !== '..' && !relative.startsWith('..' + path.sep) && !path.isAbsolute(relative));
+}
+
+/**
+ * realpath for paths that may not exist yet: resolve the deepest
+ * existing ancestor, then re-append the missing tail.
+ */
+function realPathOf(absolute: string, depth: number = 0): string {
+  const missing: string[] = [];
+  let current = absolute;
+  while (!lexists(current)) {
+    const parent = path.dirname(current);
+    if (parent === current) break;
+    missing.unshift(path.basename(current));
+    current = parent;
+  }
+  try {
+    return path.join(fs.realpathSync(current), ...missing);
+  } catch {
+    // WHY: A dangling symlink exists as a link but its target doesn't.
+    // Writing to it would create the TARGET — so judge it by the target.
+    if (depth > 40) throw new Error(`Too many levels of symbolic links: ${absolute}`);
+    const target = path.resolve(path.dirname(current), fs.readlinkSync(current));
+    return path.join(realPathOf(target, depth + 1), ...missing);
+  }
+}
+
+function lexists(p: string): boolean {
+  try {
+    fs.lstatSync(p);
+    return true;
+  } catch {
+    return false;
+  }
+}